@@ -0,0 +1,63 @@
+import { Database } from './lib/database';
+
+/**
+ * Account maintenance
+ * - `freeze <platform> <platformId>`: freeze the account of the user
+ * - `unfreeze <platform> <platformId>`: unfreeze the account of the user
+ * - `status <platform> <platformId>`: print whether the account is frozen
+ *
+ * Pending withdrawals of a running bot are rejected when confirmed
+ */
+const [ command, platform, platformId ] = process.argv.slice(2);
+const PLATFORMS = [ 'telegram', 'twitter', 'discord' ];
+
+const setFrozen = async (
+  prisma: Database,
+  accountId: string,
+  frozen: boolean
+) => {
+  await prisma.setAccountFrozen(accountId, frozen);
+  await prisma.saveAuditLog({
+    action: frozen ? 'AccountFrozen' : 'AccountUnfrozen',
+    data: { accountId, by: 'cli' }
+  });
+  console.log(`${accountId}: account ${frozen ? 'frozen' : 'unfrozen'}`);
+};
+
+const main = async () => {
+  if (!platform || !platformId) {
+    throw new Error(`usage: ${command} <platform> <platformId>`);
+  } else if (!PLATFORMS.includes(platform.toLowerCase())) {
+    throw new Error(`unknown platform: ${platform}`);
+  }
+  const prisma = new Database();
+  await prisma.connect();
+  try {
+    const user = await prisma.getPlatformUser(
+      platform.toLowerCase(),
+      platformId
+    );
+    if (!user) {
+      throw new Error(`user not found: ${platform}:${platformId}`);
+    }
+    switch (command) {
+      case 'freeze':
+        return await setFrozen(prisma, user.accountId, true);
+      case 'unfreeze':
+        return await setFrozen(prisma, user.accountId, false);
+      case 'status':
+        return console.log(
+          `${user.accountId}: ${user.account.frozen ? 'frozen' : 'not frozen'}`
+        );
+      default:
+        throw new Error(`unknown command: ${command}`);
+    }
+  } finally {
+    await prisma.disconnect();
+  }
+};
+
+main().catch((e: Error) => {
+  console.log(`ACCOUNTS: ${e.message}`);
+  process.exitCode = 1;
+});
\ No newline at end of file
@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import { readFileSync } from 'node:fs';
+import { TRANSACTION, XPI_DIVISOR } from './util/constants';
 
 type ParsedConfig = {
   apiKeys: {
@@ -10,13 +12,73 @@ type ParsedConfig = {
     clientId: string,
     guildId: string
   },
+  twitter: {
+    apiSecret: string,
+    accessToken: string,
+    accessSecret: string
+  },
+  admins: {
+    /** Telegram user IDs allowed to use admin commands */
+    telegram: string[],
+    /** Discord role IDs allowed to use admin commands */
+    discord: string[]
+  },
+  api: {
+    /** Port of the HTTP API; the API is disabled unless set */
+    port: number,
+    host: string
+  },
+  metrics: {
+    /** Port of the Prometheus `/metrics` endpoint; disabled unless set */
+    port: number,
+    host: string
+  },
+  limits: {
+    /** Gives (including rains) allowed per account in each window */
+    givesPerUser: number,
+    /** Gives allowed per group chat or channel in each window */
+    givesPerChat: number,
+    /** Rate limit window, in milliseconds */
+    giveWindow: number,
+    /** Minimum amount of a give (per recipient of a rain), in XPI */
+    minGive: {
+      telegram: number,
+      twitter: number,
+      discord: number
+    },
+    /** Maximum XPI per withdrawal; 0 for no limit */
+    withdrawPerTx: number,
+    /** Maximum XPI withdrawn per account in 24 hours; 0 for no limit */
+    withdrawPerDay: number,
+    /** Withdrawals above this many XPI need admin approval; 0 to disable */
+    withdrawApproval: number
+  },
   wallet: {
     chronikUrl: string,
     explorerUrl: string,
+    /** Record gives between users off-chain; settle only on withdrawal */
+    ledger: boolean,
+    /** Hex-encoded key that encrypts the WalletKey data keys, if any */
+    masterKey: string,
+    /** Service fee charged on withdrawals, paid to `treasury` */
+    withdrawFee: {
+      /** Flat fee, in XPI */
+      flat: number,
+      /** Percentage of the withdrawal amount */
+      percent: number,
+      /** No fee is charged unless set */
+      treasury: string
+    },
     tx: {
-      feeRate: number
+      feeRate: number,
+      /** Whether Give/Withdraw may spend unconfirmed UTXOs */
+      spendUnconfirmed: boolean
     },
   },
+  log: {
+    /** Minimum level of the logged entries */
+    level: 'debug' | 'info' | 'warn' | 'error'
+  },
   dbUrl: string
 };
 
@@ -40,16 +102,80 @@ class Config {
         clientId: process.env.CLIENTID_DISCORD,
         guildId: process.env.GUILDID_DISCORD
       },
+      twitter: {
+        apiSecret: process.env.APISECRET_TWITTER,
+        accessToken: process.env.ACCESSTOKEN_TWITTER,
+        accessSecret: process.env.ACCESSSECRET_TWITTER
+      },
+      admins: {
+        telegram: this.parseList(process.env.ADMINS_TELEGRAM),
+        discord: this.parseList(process.env.ADMINROLES_DISCORD)
+      },
+      api: {
+        port: this.parseNumber(process.env.API_PORT, 0),
+        host: process.env.API_HOST || '127.0.0.1'
+      },
+      metrics: {
+        port: this.parseNumber(process.env.METRICS_PORT, 0),
+        host: process.env.METRICS_HOST || '127.0.0.1'
+      },
+      limits: {
+        givesPerUser: this.parseNumber(process.env.GIVE_LIMIT_USER, 10),
+        givesPerChat: this.parseNumber(process.env.GIVE_LIMIT_CHAT, 30),
+        giveWindow: this.parseNumber(process.env.GIVE_LIMIT_WINDOW, 60) * 1000,
+        minGive: {
+          telegram: this.parseNumber(process.env.GIVE_MIN_TELEGRAM, 0),
+          twitter: this.parseNumber(process.env.GIVE_MIN_TWITTER, 0),
+          discord: this.parseNumber(process.env.GIVE_MIN_DISCORD, 0)
+        },
+        withdrawPerTx: this.parseNumber(process.env.WITHDRAW_LIMIT_TX, 0),
+        withdrawPerDay: this.parseNumber(process.env.WITHDRAW_LIMIT_DAY, 0),
+        withdrawApproval: this.parseNumber(process.env.WITHDRAW_APPROVAL, 0)
+      },
       wallet: {
         chronikUrl: process.env.WALLET_CHRONIK_URL,
         explorerUrl: process.env.WALLET_EXPLORER_URL,
+        ledger: process.env.WALLET_LEDGER == 'true',
+        masterKey: process.env.WALLET_MASTER_KEYFILE
+          ? readFileSync(process.env.WALLET_MASTER_KEYFILE, 'utf8').trim()
+          : process.env.WALLET_MASTER_KEY,
+        withdrawFee: {
+          flat: this.parseNumber(
+            process.env.WITHDRAW_FEE_FLAT,
+            TRANSACTION.FEE / XPI_DIVISOR
+          ),
+          percent: this.parseNumber(process.env.WITHDRAW_FEE_PERCENT, 0),
+          treasury: process.env.WITHDRAW_FEE_ADDRESS
+        },
         tx: {
-          feeRate: Number(process.env.TX_FEE_RATE)
+          feeRate: Number(process.env.TX_FEE_RATE),
+          spendUnconfirmed: process.env.TX_SPEND_UNCONFIRMED != 'false'
         },
       },
+      log: {
+        level: this.parseLogLevel(process.env.LOG_LEVEL)
+      },
       dbUrl: process.env.DATABASE_URL,
     };
   };
+  /** Parse a comma-separated list, e.g. of IDs */
+  private parseList = (
+    value: string | undefined
+  ) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  /** Parse a number, or use `fallback` if it is not set or invalid */
+  private parseNumber = (
+    value: string | undefined,
+    fallback: number
+  ) => value && !isNaN(Number(value)) ? Number(value) : fallback;
+  /** Parse a log level; defaults to `info` */
+  private parseLogLevel = (
+    value: string | undefined
+  ): ParsedConfig['log']['level'] => {
+    const level = (value || '').toLowerCase();
+    return ['debug', 'info', 'warn', 'error'].includes(level)
+      ? <ParsedConfig['log']['level']>level
+      : 'info';
+  };
 };
 
 const config = new Config();
@@ -1,4 +1,7 @@
 import LotusBot from './lib/lotusbot';
+import logger from './util/logger';
 
 const lotusbot = new LotusBot();
-lotusbot.init().catch((e: Error) => console.log(e));
\ No newline at end of file
+lotusbot.init().catch((e: Error) => {
+  logger.error('init failed', { error: e.message, stack: e.stack });
+});
\ No newline at end of file
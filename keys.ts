@@ -0,0 +1,82 @@
+import { readFileSync } from 'node:fs';
+import config from './config';
+import { Database } from './lib/database';
+import { WalletManager } from './lib/wallet';
+import * as Crypto from './util/crypto';
+
+/**
+ * WalletKey encryption maintenance
+ * - `generate`: print a new random master key
+ * - `encrypt`: encrypt all plaintext WalletKeys with the configured master key
+ * - `rotate <keyfile>`: re-encrypt all data keys with the master key in
+ *   `keyfile`; update `WALLET_MASTER_KEY(FILE)` afterwards
+ */
+const [ command, keyfile ] = process.argv.slice(2);
+
+const encryptKeys = async (prisma: Database) => {
+  if (!config.wallet.masterKey) {
+    throw new Error('no master key is configured');
+  }
+  const keys = await prisma.getWalletKeys();
+  const plaintextKeys = keys.filter(key => !key.dataKey);
+  await prisma.updateWalletKeys(
+    plaintextKeys.map(key => {
+      return {
+        userId: key.userId,
+        ...WalletManager.encryptWalletKey(
+          key.mnemonic,
+          key.hdPrivKey.toString()
+        )
+      };
+    })
+  );
+  console.log(`encrypted ${plaintextKeys.length} of ${keys.length} keys`);
+};
+
+const rotateKeys = async (prisma: Database) => {
+  if (!config.wallet.masterKey) {
+    throw new Error('no master key is configured');
+  } else if (!keyfile) {
+    throw new Error('usage: rotate <keyfile>');
+  }
+  const masterKey = Crypto.parseKey(config.wallet.masterKey);
+  const newMasterKey = Crypto.parseKey(readFileSync(keyfile, 'utf8'));
+  const keys = await prisma.getWalletKeys();
+  const encryptedKeys = keys.filter(key => key.dataKey);
+  // Only the data keys change; the encrypted secrets are left as they are
+  await prisma.updateWalletKeys(
+    encryptedKeys.map(key => {
+      const dataKey = Crypto.unwrapKey(masterKey, key.dataKey);
+      return { ...key, dataKey: Crypto.wrapKey(newMasterKey, dataKey) };
+    })
+  );
+  console.log(
+    `rotated ${encryptedKeys.length} of ${keys.length} keys; ` +
+    `set the new master key in .env before starting the bot`
+  );
+};
+
+const main = async () => {
+  if (command == 'generate') {
+    return console.log(Crypto.newKey().toString('hex'));
+  }
+  const prisma = new Database();
+  await prisma.connect();
+  try {
+    switch (command) {
+      case 'encrypt':
+        return await encryptKeys(prisma);
+      case 'rotate':
+        return await rotateKeys(prisma);
+      default:
+        throw new Error(`unknown command: ${command}`);
+    }
+  } finally {
+    await prisma.disconnect();
+  }
+};
+
+main().catch((e: Error) => {
+  console.log(`KEYS: ${e.message}`);
+  process.exitCode = 1;
+});
\ No newline at end of file
@@ -0,0 +1,336 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { PlatformName } from './platforms';
+import { Database } from './database';
+import { Handler } from './handler';
+import { hashToken } from '../util/crypto';
+import logger from '../util/logger';
+
+const log = logger.child({ module: 'api' });
+/** Maximum size of a request body, in bytes */
+const MAX_BODY_SIZE = 16384;
+const PLATFORMS: PlatformName[] = [ 'telegram', 'twitter', 'discord' ];
+/** Amount in XPI given as a string, e.g. `"1.5"` */
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+type Route = {
+  method: 'GET' | 'POST',
+  path: RegExp,
+  handle: (
+    params: string[],
+    query: URLSearchParams,
+    body: any,
+    tokenId: string
+  ) => Promise<[ status: number, data: object ]>
+};
+
+/** Error returned to the client with `status` */
+class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  };
+};
+
+/**
+ * Local HTTP API for trusted integrations, e.g. a community website  
+ * Every request needs `Authorization: Bearer <token>` with a token created
+ * by `npm run tokens:create`
+ */
+export class Api {
+  private handler: Handler;
+  private prisma: Database;
+  private server: Server;
+  private routes: Route[];
+
+  constructor(
+    handler: Handler,
+    prisma: Database
+  ) {
+    this.handler = handler;
+    this.prisma = prisma;
+    this.server = createServer(this._handleRequest);
+    this.routes = [
+      {
+        method: 'GET',
+        path: /^\/v1\/users\/(\w+)\/([^/]+)$/,
+        handle: this._getAccount
+      },
+      {
+        method: 'GET',
+        path: /^\/v1\/users\/(\w+)\/([^/]+)\/balance$/,
+        handle: this._getBalance
+      },
+      {
+        method: 'GET',
+        path: /^\/v1\/users\/(\w+)\/([^/]+)\/deposit$/,
+        handle: this._getDepositAddress
+      },
+      {
+        method: 'GET',
+        path: /^\/v1\/users\/(\w+)\/([^/]+)\/history$/,
+        handle: this._getHistory
+      },
+      {
+        method: 'POST',
+        path: /^\/v1\/gives$/,
+        handle: this._postGive
+      },
+    ];
+  };
+  /** Start listening on `host`:`port` */
+  listen = async (
+    port: number,
+    host: string
+  ) => {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    log.info('listening', { host, port });
+  };
+  /** Stop accepting requests */
+  close = async () => {
+    if (!this.server.listening) {
+      return;
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  };
+
+  private _handleRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ) => {
+    try {
+      const url = this._parseUrl(req.url);
+      const tokenId = await this._authenticate(req);
+      const route = this.routes.find(route => route.path.test(url.pathname));
+      if (!route) {
+        throw new ApiError(404, 'not found');
+      } else if (route.method != req.method) {
+        throw new ApiError(405, 'method not allowed');
+      }
+      const params = route.path.exec(url.pathname).slice(1)
+        .map(this._decodeParam);
+      const body = req.method == 'POST'
+        ? await this._readBody(req)
+        : undefined;
+      const [ status, data ] = await route.handle(
+        params,
+        url.searchParams,
+        body,
+        tokenId
+      );
+      this._send(res, status, data);
+    } catch (e: any) {
+      if (e instanceof ApiError) {
+        this._send(res, e.status, { error: e.message });
+      } else {
+        log.error('request failed', {
+          method: req.method,
+          path: req.url,
+          error: e.message
+        });
+        this._send(res, 500, { error: 'internal error' });
+      }
+    }
+  };
+  /** Parse the request target; malformed targets are client errors */
+  private _parseUrl = (
+    target: string
+  ) => {
+    try {
+      return new URL(target, 'http://localhost');
+    } catch (e: any) {
+      throw new ApiError(400, 'invalid request URL');
+    }
+  };
+  private _decodeParam = (
+    param: string
+  ) => {
+    try {
+      return decodeURIComponent(param);
+    } catch (e: any) {
+      throw new ApiError(400, 'invalid URL encoding');
+    }
+  };
+  /** Return the id of the token of the request */
+  private _authenticate = async (
+    req: IncomingMessage
+  ) => {
+    const [ scheme, token ] = (req.headers.authorization || '').split(' ');
+    if (scheme != 'Bearer' || !token) {
+      throw new ApiError(401, 'missing API token');
+    }
+    const apiToken = await this.prisma.useApiToken(hashToken(token));
+    if (!apiToken) {
+      throw new ApiError(401, 'invalid API token');
+    }
+    return apiToken.id;
+  };
+  private _readBody = async (
+    req: IncomingMessage
+  ) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new ApiError(413, 'request body too large');
+      }
+      chunks.push(chunk);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString() || '{}');
+    } catch (e: any) {
+      throw new ApiError(400, 'invalid JSON body');
+    }
+  };
+  private _send = (
+    res: ServerResponse,
+    status: number,
+    data: object
+  ) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+  private _toPlatformName = (
+    platform: string
+  ) => {
+    if (!PLATFORMS.includes(<PlatformName>platform)) {
+      throw new ApiError(404, `unknown platform: ${platform}`);
+    }
+    return <PlatformName>platform;
+  };
+  /** Whether `amount` is a positive number or decimal string */
+  private _isAmount = (
+    amount: unknown
+  ) => {
+    if (typeof amount == 'number') {
+      return Number.isFinite(amount) && amount > 0;
+    }
+    return typeof amount == 'string' && DECIMAL.test(amount) &&
+      Number(amount) > 0;
+  };
+  /** Get the account details of the user; it must exist */
+  private _getUser = async (
+    platform: string,
+    platformId: string
+  ) => {
+    const name = this._toPlatformName(platform);
+    const account = await this.handler.getAccountInfo(name, platformId);
+    if (!account) {
+      throw new ApiError(404, `user not found: ${platform}:${platformId}`);
+    }
+    return { name, account };
+  };
+  /** `GET /v1/users/:platform/:platformId` */
+  private _getAccount = async (
+    [ platform, platformId ]: string[]
+  ): Promise<[ number, object ]> => {
+    const { account } = await this._getUser(platform, platformId);
+    return [ 200, account ];
+  };
+  /** `GET /v1/users/:platform/:platformId/balance` */
+  private _getBalance = async (
+    [ platform, platformId ]: string[]
+  ): Promise<[ number, object ]> => {
+    const { name } = await this._getUser(platform, platformId);
+    return [ 200, await this.handler.processBalanceCommand(name, platformId) ];
+  };
+  /**
+   * `GET /v1/users/:platform/:platformId/deposit`  
+   * Creates the user if it does not exist yet, like the deposit command
+   */
+  private _getDepositAddress = async (
+    [ platform, platformId ]: string[]
+  ): Promise<[ number, object ]> => {
+    const name = this._toPlatformName(platform);
+    const address = await this.handler.processDepositCommand(name, platformId);
+    return [ 200, { address } ];
+  };
+  /** `GET /v1/users/:platform/:platformId/history?page=1` */
+  private _getHistory = async (
+    [ platform, platformId ]: string[],
+    query: URLSearchParams
+  ): Promise<[ number, object ]> => {
+    const { name } = await this._getUser(platform, platformId);
+    const page = Number(query.get('page') ?? 1);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ApiError(400, 'page must be 1 or more');
+    }
+    return [
+      200,
+      await this.handler.processHistoryCommand(name, platformId, page)
+    ];
+  };
+  /**
+   * `POST /v1/gives`  
+   * Body: `{ platform, fromId, toId, amount, fromUsername?, toUsername?,
+   * idempotencyKey? }`; `amount` in XPI  
+   * The recipient is created if it does not exist yet, like the give command
+   */
+  private _postGive = async (
+    params: string[],
+    query: URLSearchParams,
+    body: any,
+    tokenId: string
+  ): Promise<[ number, object ]> => {
+    if (typeof body != 'object' || body === null || Array.isArray(body)) {
+      throw new ApiError(400, 'body must be a JSON object');
+    }
+    const {
+      platform,
+      fromId,
+      toId,
+      amount,
+      fromUsername,
+      toUsername,
+      idempotencyKey
+    } = body;
+    if (
+      typeof platform != 'string' ||
+      !PLATFORMS.includes(<PlatformName>platform)
+    ) {
+      throw new ApiError(400, `unknown platform: ${platform}`);
+    } else if (
+      typeof fromId != 'string' ||
+      typeof toId != 'string' ||
+      !this._isAmount(amount)
+    ) {
+      throw new ApiError(400, 'fromId, toId and a positive amount are required');
+    } else if (fromId == toId) {
+      throw new ApiError(400, 'cannot give to the same user');
+    }
+    const { name } = await this._getUser(platform, fromId);
+    let result: Awaited<ReturnType<Handler['processGiveCommand']>>;
+    try {
+      result = await this.handler.processGiveCommand(
+        name,
+        fromId,
+        fromUsername || fromId,
+        toId,
+        toUsername || toId,
+        amount.toString(),
+        undefined,
+        idempotencyKey ? `api:${tokenId}:${idempotencyKey}` : undefined
+      );
+    } catch (e: any) {
+      // e.g. insufficient balance
+      throw new ApiError(422, e.message);
+    }
+    if (typeof result == 'string') {
+      throw new ApiError(422, result);
+    }
+    return [ 200, result ];
+  };
+};
\ No newline at end of file
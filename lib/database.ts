@@ -1,9 +1,19 @@
 import { PrismaClient } from "../prisma/prisma-client-js";
 import { AccountUtxo } from "./wallet";
+import logger from "../util/logger";
 
-type Deposit = AccountUtxo & {
+const log = logger.child({ module: 'prisma' });
+
+type Deposit = Omit<AccountUtxo, 'blockHeight'> & {
   timestamp: Date,
-  confirmed?: boolean
+  confirmed?: boolean,
+  blockHeight?: number
+};
+
+type AuditLog = {
+  action: string,
+  userId?: string,
+  data: object
 };
 
 type Give = {
@@ -12,24 +22,96 @@ type Give = {
   timestamp: Date,
   fromId: string,
   toId: string,
-  value: string
+  value: string,
+  fromUsername?: string,
+  toUsername?: string,
+  onChain?: boolean,
+  /** Network fee, in satoshis */
+  fee?: string
+};
+
+type HistoryEntry = {
+  type: 'deposit' | 'withdrawal' | 'give' | 'receive',
+  txid: string,
+  /** Amount, in satoshis */
+  value: string,
+  timestamp: Date,
+  /** Username of the other user of a Give, if known */
+  counterparty?: string,
+  onChain: boolean
+};
+
+type LedgerEntry = {
+  userId: string,
+  /** Signed amount, in satoshis */
+  value: string,
+  type: 'give' | 'receive' | 'settle',
+  reference: string,
+  timestamp: Date
 };
 
 type Withdrawal = {
   txid: string,
+  /** Amount received at the withdrawal address, in satoshis */
   value: string,
+  serviceFee?: string,
+  /** Network fee, in satoshis */
+  fee?: string,
   timestamp: Date,
   userId: string
 };
 
+type WithdrawalRequest = {
+  id: string,
+  userId: string,
+  platform: string,
+  platformId: string,
+  value: string,
+  outAddress: string,
+  subtractFee: boolean,
+  timestamp: Date
+};
+
+type ApiToken = {
+  id: string,
+  name: string,
+  tokenHash: string,
+  timestamp: Date
+};
+
+type Webhook = {
+  id: string,
+  url: string,
+  secret: string,
+  events: string,
+  timestamp: Date
+};
+
+type WebhookDelivery = {
+  id: string,
+  webhookId: string,
+  event: string,
+  payload: string,
+  timestamp: Date
+};
+
+type WithdrawalRequestStatus = 'pending' | 'approved' | 'rejected';
+type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
 export class Database {
   private prisma: PrismaClient;
 
   constructor() {
     this.prisma = new PrismaClient();
   };
-  connect = async () => await this.prisma.$connect();
-  disconnect = async () => await this.prisma.$disconnect();
+  connect = async () => {
+    await this.prisma.$connect();
+    log.debug('connected');
+  };
+  disconnect = async () => {
+    await this.prisma.$disconnect();
+    log.debug('disconnected');
+  };
   /**
    * Check if txid is a Give  
    * Used when processing `AddedToMempool` to not save a Give as a Deposit
@@ -60,6 +142,34 @@ export class Database {
       throw new Error(`isWithdrawTx: ${e.message}`);
     }
   }
+  /** Get the `accountId` of the sender of withdrawal `txid`, if any */
+  getWithdrawAccountId = async (
+    txid: string
+  ) => {
+    try {
+      const result = await this.prisma.withdrawal.findFirst({
+        where: { txid },
+        select: { user: { select: { accountId: true } } }
+      });
+      return result?.user.accountId as string | undefined;
+    } catch (e: any) {
+      throw new Error(`getWithdrawAccountId: ${e.message}`);
+    }
+  };
+  /** Get those of `txids` that are withdrawal txs */
+  getWithdrawTxids = async (
+    txids: string[]
+  ) => {
+    try {
+      const result = await this.prisma.withdrawal.findMany({
+        where: { txid: { in: txids } },
+        select: { txid: true }
+      });
+      return new Set<string>(result.map(withdrawal => withdrawal.txid));
+    } catch (e: any) {
+      throw new Error(`getWithdrawTxids: ${e.message}`);
+    }
+  };
 
   /** Check db to ensure `userId` exists */
   isValidUser = async (
@@ -81,14 +191,22 @@ export class Database {
     try {
       const result = await this.prisma.user.findMany({
         select: { id: true, accountId: true, key: {
-          select: { hdPrivKey: true }
+          select: {
+            hdPrivKey: true,
+            dataKey: true,
+            receiveIndex: true,
+            changeIndex: true
+          }
         }}
       });
       return result.map(user => {
         return {
           accountId: user.accountId,
           userId: user.id,
-          hdPrivKey: user.key.hdPrivKey
+          hdPrivKey: user.key.hdPrivKey,
+          dataKey: user.key.dataKey,
+          receiveIndex: user.key.receiveIndex,
+          changeIndex: user.key.changeIndex
         }
       });
     } catch (e: any) {
@@ -103,6 +221,236 @@ export class Database {
       throw new Error(`getUserDeposits: ${e.message}`);
     }
   };
+  /** Get Deposits that have not yet been mined into a block */
+  getUnconfirmedDeposits = async () => {
+    try {
+      return await this.prisma.deposit.findMany({
+        where: { confirmed: false, reverted: false }
+      });
+    } catch (e: any) {
+      throw new Error(`getUnconfirmedDeposits: ${e.message}`);
+    }
+  };
+  /** Get the sum of the ledger entries of all users of `accountId` */
+  getAccountLedgerBalance = async (
+    accountId: string
+  ) => {
+    try {
+      const entries = await this.prisma.ledgerEntry.findMany({
+        where: { user: { accountId } },
+        select: { value: true }
+      });
+      return entries.reduce((sats, entry) => sats + Number(entry.value), 0);
+    } catch (e: any) {
+      throw new Error(`getAccountLedgerBalance: ${e.message}`);
+    }
+  };
+  /** Get the sum of the ledger entries of every user, by `userId` */
+  getLedgerBalances = async () => {
+    try {
+      const entries = await this.prisma.ledgerEntry.findMany({
+        select: { userId: true, value: true }
+      });
+      const balances: { [userId: string]: number } = {};
+      for (const { userId, value } of entries) {
+        balances[userId] = (balances[userId] || 0) + Number(value);
+      }
+      return balances;
+    } catch (e: any) {
+      throw new Error(`getLedgerBalances: ${e.message}`);
+    }
+  };
+  /**
+   * Get the totals of every account from the Deposit, Withdrawal, Give and
+   * LedgerEntry tables, in satoshis  
+   * Withdrawals and gives sent include their fees; reverted deposits are
+   * excluded
+   */
+  getAccountTotals = async () => {
+    try {
+      const [
+        users,
+        deposits,
+        withdrawals,
+        gives,
+        entries
+      ] = await this._execTransaction([
+        this.prisma.user.findMany({
+          select: { id: true, accountId: true }
+        }),
+        this.prisma.deposit.findMany({
+          where: { reverted: false },
+          select: { userId: true, value: true }
+        }),
+        this.prisma.withdrawal.findMany({
+          select: { userId: true, value: true, serviceFee: true, fee: true }
+        }),
+        this.prisma.give.findMany({
+          select: { fromId: true, toId: true, value: true, fee: true }
+        }),
+        this.prisma.ledgerEntry.findMany({
+          select: { userId: true, value: true }
+        })
+      ]);
+      const accountIds: { [userId: string]: string } = {};
+      const totals: {
+        [accountId: string]: {
+          userIds: string[],
+          deposits: number,
+          withdrawals: number,
+          given: number,
+          received: number,
+          ledger: number
+        }
+      } = {};
+      for (const { id, accountId } of users) {
+        accountIds[id] = accountId;
+        totals[accountId]
+          ? totals[accountId].userIds.push(id)
+          : totals[accountId] = {
+            userIds: [ id ],
+            deposits: 0,
+            withdrawals: 0,
+            given: 0,
+            received: 0,
+            ledger: 0
+          };
+      }
+      for (const { userId, value } of deposits) {
+        totals[accountIds[userId]].deposits += Number(value);
+      }
+      for (const { userId, value, serviceFee, fee } of withdrawals) {
+        totals[accountIds[userId]].withdrawals +=
+          Number(value) + Number(serviceFee) + Number(fee);
+      }
+      for (const { fromId, toId, value, fee } of gives) {
+        totals[accountIds[fromId]].given += Number(value) + Number(fee);
+        totals[accountIds[toId]].received += Number(value);
+      }
+      for (const { userId, value } of entries) {
+        totals[accountIds[userId]].ledger += Number(value);
+      }
+      return totals;
+    } catch (e: any) {
+      throw new Error(`getAccountTotals: ${e.message}`);
+    }
+  };
+  /**
+   * Get one page of the deposits, withdrawals, gives and receives of all
+   * users of `accountId`, newest first  
+   * `page` starts at 1, and is clamped to the last page since every earlier
+   * page is loaded to merge the four lists
+   */
+  getAccountHistory = async (
+    accountId: string,
+    page: number,
+    pageSize: number
+  ) => {
+    try {
+      const where = { user: { accountId } };
+      const counts: number[] = await this._execTransaction([
+        this.prisma.deposit.count({ where: { ...where, reverted: false } }),
+        this.prisma.withdrawal.count({ where }),
+        this.prisma.give.count({ where: { from: { accountId } } }),
+        this.prisma.give.count({ where: { to: { accountId } } }),
+      ]);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      const pages = Math.max(Math.ceil(total / pageSize), 1);
+      page = Math.min(page, pages);
+      const take = page * pageSize;
+      const orderBy = { timestamp: 'desc' as const };
+      const [
+        deposits,
+        withdrawals,
+        gives,
+        receives
+      ] = await this._execTransaction([
+        this.prisma.deposit.findMany({
+          where: { ...where, reverted: false }, orderBy, take
+        }),
+        this.prisma.withdrawal.findMany({ where, orderBy, take }),
+        this.prisma.give.findMany({
+          where: { from: { accountId } }, orderBy, take
+        }),
+        this.prisma.give.findMany({
+          where: { to: { accountId } }, orderBy, take
+        }),
+      ]);
+      const entries: HistoryEntry[] = [
+        ...deposits.map(deposit => ({
+          type: 'deposit' as const,
+          txid: deposit.txid,
+          value: deposit.value,
+          timestamp: deposit.timestamp,
+          onChain: true
+        })),
+        ...withdrawals.map(withdrawal => ({
+          type: 'withdrawal' as const,
+          txid: withdrawal.txid,
+          value: withdrawal.value,
+          timestamp: withdrawal.timestamp,
+          onChain: true
+        })),
+        ...gives.map(give => ({
+          type: 'give' as const,
+          txid: give.txid,
+          value: give.value,
+          timestamp: give.timestamp,
+          counterparty: give.toUsername ?? undefined,
+          onChain: give.onChain
+        })),
+        ...receives.map(give => ({
+          type: 'receive' as const,
+          txid: give.txid,
+          value: give.value,
+          timestamp: give.timestamp,
+          counterparty: give.fromUsername ?? undefined,
+          onChain: give.onChain
+        })),
+      ];
+      entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      return {
+        entries: entries.slice((page - 1) * pageSize, take),
+        page,
+        pages
+      };
+    } catch (e: any) {
+      throw new Error(`getAccountHistory: ${e.message}`);
+    }
+  };
+  /**
+   * Get the user of `platformId` with its account and linked platform users  
+   * Return `undefined` if the user does not exist
+   */
+  getPlatformUser = async (
+    platform: string,
+    platformId: string
+  ) => {
+    const platformTable = this._toPlatformTable(platform);
+    try {
+      const result = await this.prisma[platformTable].findFirst({
+        where: { id: platformId },
+        select: { user: {
+          select: {
+            id: true,
+            accountId: true,
+            account: { select: {
+              frozen: true,
+              users: { select: {
+                id: true,
+                telegram: true,
+                twitter: true,
+                discord: true
+              }}
+            }}
+          }
+        }}
+      });
+      return result?.user;
+    } catch (e: any) {
+      throw new Error(`getPlatformUser: ${e.message}`);
+    }
+  };
   /** Get `userId` and `accountId` for the specified `platformId` */
   getIds = async (
     platform: string,
@@ -124,34 +472,65 @@ export class Database {
       throw new Error(`getIds: ${e.message}`);
     }
   };
+  /** Get the `accountId` of the user with the unexpired `secretHash` */
   getAccountIdFromSecret = async (
-    secret: string
+    secretHash: string
   ) => {
     try {
       const result = await this.prisma.user.findFirst({
-        where: { secret },
+        where: { secretHash, secretExpires: { gt: new Date() } },
         select: { accountId: true }
       });
-      return result?.accountId;
+      return result?.accountId as string | undefined;
     } catch (e: any) {
-
+      throw new Error(`getAccountIdFromSecret: ${e.message}`);
     }
   };
-  getUserSecret = async (
-    platform: string,
-    platformId: string
+  /** Get the expiry of the link secret of `userId`, if it has one */
+  getUserSecretExpiry = async (
+    userId: string
   ) => {
-    const platformTable = this._toPlatformTable(platform);
     try {
-      const result = await this.prisma[platformTable].findFirst({
-        where: { id: platformId },
-        select: { user: {
-          select: { secret: true }
-        }}
+      const result = await this.prisma.user.findFirst({
+        where: { id: userId },
+        select: { secretExpires: true }
+      });
+      return result?.secretExpires as Date | null;
+    } catch (e: any) {
+      throw new Error(`getUserSecretExpiry: ${e.message}`);
+    }
+  };
+  /** Replace the link secret of `userId` with `secretHash` */
+  setUserSecret = async (
+    userId: string,
+    secretHash: string,
+    secretExpires: Date
+  ) => {
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { secretHash, secretExpires }
+      });
+    } catch (e: any) {
+      throw new Error(`setUserSecret: ${e.message}`);
+    }
+  };
+  /**
+   * Clear the unexpired link secret `secretHash` so that it cannot be used
+   * again  
+   * Return whether the secret was still valid
+   */
+  useUserSecret = async (
+    secretHash: string
+  ) => {
+    try {
+      const result = await this.prisma.user.updateMany({
+        where: { secretHash, secretExpires: { gt: new Date() } },
+        data: { secretHash: null, secretExpires: null }
       });
-      return result.user.secret;
+      return result.count > 0;
     } catch (e: any) {
-      throw new Error(`getUserSecret: ${e.message}`);
+      throw new Error(`useUserSecret: ${e.message}`);
     }
   };
   getUserMnemonic = async (
@@ -161,14 +540,64 @@ export class Database {
       const result = await this.prisma.user.findFirst({
         where: { id: userId },
         select: { key: { 
-          select: { mnemonic: true }
+          select: { mnemonic: true, dataKey: true }
         }}
       });
-      return result.key.mnemonic
+      return result.key;
     } catch (e: any) {
       throw new Error(`getUserMnemonic: ${e.message}`);
     }
   };
+  /** Get the stored, possibly encrypted, secrets of every WalletKey */
+  getWalletKeys = async () => {
+    try {
+      return await this.prisma.walletKey.findMany({
+        select: {
+          userId: true,
+          mnemonic: true,
+          hdPrivKey: true,
+          dataKey: true
+        }
+      });
+    } catch (e: any) {
+      throw new Error(`getWalletKeys: ${e.message}`);
+    }
+  };
+  /** Save the derivation indexes of the WalletKey of `userId` */
+  updateWalletKeyIndexes = async (
+    userId: string,
+    receiveIndex: number,
+    changeIndex: number
+  ) => {
+    try {
+      await this.prisma.walletKey.update({
+        where: { userId },
+        data: { receiveIndex, changeIndex }
+      });
+    } catch (e: any) {
+      throw new Error(`updateWalletKeyIndexes: ${e.message}`);
+    }
+  };
+  /** Replace the stored secrets of the WalletKeys, all or nothing */
+  updateWalletKeys = async (
+    keys: Array<{
+      userId: string,
+      mnemonic: string,
+      hdPrivKey: Buffer,
+      dataKey: string | null
+    }>
+  ) => {
+    try {
+      await this._execTransaction(
+        keys.map(({ userId, ...data }) => this.prisma.walletKey.update({
+          where: { userId },
+          data
+        }))
+      );
+    } catch (e: any) {
+      throw new Error(`updateWalletKeys: ${e.message}`);
+    }
+  };
   /**
    * Save new `Account` to the database  
    * Also saves all associated data (e.g. Platform, WalletKey, etc.)
@@ -176,35 +605,34 @@ export class Database {
   saveAccount = async ({
     accountId,
     userId,
-    secret,
     platform,
     platformId,
     mnemonic,
     hdPrivKey,
-    hdPubKey
+    hdPubKey,
+    dataKey
   }: {
     accountId: string,
     userId: string,
-    secret: string,
     platform?: string,
     platformId?: string,
     mnemonic: string,
-    hdPrivKey: string,
-    hdPubKey: string
+    hdPrivKey: Buffer,
+    hdPubKey: string,
+    dataKey: string | null
   }) => {
     try {
-      const privKeyBytes = Buffer.from(hdPrivKey);
       const pubKeyBytes = Buffer.from(hdPubKey);
       const account = {
         id: accountId,
         users: { create: {
           id: userId,
-          secret,
           key: {
             create: {
               mnemonic,
-              hdPrivKey: privKeyBytes,
-              hdPubKey: pubKeyBytes
+              hdPrivKey,
+              hdPubKey: pubKeyBytes,
+              dataKey
             }
           },
         }}
@@ -219,6 +647,33 @@ export class Database {
       throw new Error(`saveAccount: ${e.message}`);
     }
   };
+  /** Whether `accountId` is frozen by an operator */
+  isAccountFrozen = async (
+    accountId: string
+  ) => {
+    try {
+      const result = await this.prisma.account.findFirst({
+        where: { id: accountId },
+        select: { frozen: true }
+      });
+      return result?.frozen ?? false;
+    } catch (e: any) {
+      throw new Error(`isAccountFrozen: ${e.message}`);
+    }
+  };
+  setAccountFrozen = async (
+    accountId: string,
+    frozen: boolean
+  ) => {
+    try {
+      await this.prisma.account.update({
+        where: { id: accountId },
+        data: { frozen }
+      });
+    } catch (e: any) {
+      throw new Error(`setAccountFrozen: ${e.message}`);
+    }
+  };
   /** For linking one user with another user by `accountId` */
   updateUserAccountId = async (
     userId: string,
@@ -233,16 +688,70 @@ export class Database {
       throw new Error(`updateUserAccountId: ${e.message}`);
     }
   };
+  /** Get the `userId` of every user of `accountId` */
+  getAccountUserIds = async (
+    accountId: string
+  ) => {
+    try {
+      const result = await this.prisma.user.findMany({
+        where: { accountId },
+        select: { id: true }
+      });
+      return result.map(user => user.id) as string[];
+    } catch (e: any) {
+      throw new Error(`getAccountUserIds: ${e.message}`);
+    }
+  };
+  /**
+   * Move every user of `fromAccountId` to `toAccountId` and delete the empty
+   * account, all or nothing
+   */
+  mergeAccounts = async (
+    fromAccountId: string,
+    toAccountId: string
+  ) => {
+    try {
+      await this._execTransaction([
+        this.prisma.user.updateMany({
+          where: { accountId: fromAccountId },
+          data: { accountId: toAccountId }
+        }),
+        this.prisma.account.delete({ where: { id: fromAccountId } })
+      ]);
+    } catch (e: any) {
+      throw new Error(`mergeAccounts: ${e.message}`);
+    }
+  };
+  /** Move `userId` to the new account `accountId`, all or nothing */
+  unlinkUser = async (
+    userId: string,
+    accountId: string
+  ) => {
+    try {
+      await this._execTransaction([
+        this.prisma.account.create({ data: { id: accountId } }),
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { accountId }
+        })
+      ]);
+    } catch (e: any) {
+      throw new Error(`unlinkUser: ${e.message}`);
+    }
+  };
   /**
    * Save the deposit received as UTXO from Chronik API  
+   * Reinstates a previously reverted deposit (e.g. tx re-added to mempool)  
    * Return the `platformId`s to notify the user
    */
   saveDeposit = async (
     data: Deposit
   ) => {
     try {
-      const result = await this.prisma.deposit.create({
-        data,
+      const result = await this.prisma.deposit.upsert({
+        where: { txid_outIdx: { txid: data.txid, outIdx: data.outIdx } },
+        create: data,
+        update: { ...data, reverted: false },
         select: { user: {
           select: {
             accountId: true,
@@ -257,11 +766,132 @@ export class Database {
       throw new Error(`saveDeposit: ${e.message}`);
     }
   };
+  /**
+   * Mark the deposits of `txid` as confirmed at `blockHeight`  
+   * Return each deposit with the `platformId`s to notify its user; none if
+   * the deposits do not exist or were already confirmed
+   */
+  confirmDeposit = async (
+    txid: string,
+    blockHeight: number
+  ) => {
+    try {
+      const { count } = await this.prisma.deposit.updateMany({
+        where: { txid, confirmed: false, reverted: false },
+        data: { confirmed: true, blockHeight }
+      });
+      if (count < 1) {
+        return [];
+      }
+      return await this.prisma.deposit.findMany({
+        where: { txid, reverted: false },
+        select: {
+          value: true,
+          user: {
+            select: {
+              accountId: true,
+              telegram: true,
+              twitter: true,
+              discord: true
+            }
+          }
+        }
+      });
+    } catch (e: any) {
+      throw new Error(`confirmDeposit: ${e.message}`);
+    }
+  };
+  /** Mark the confirmed deposit of `txid` as unconfirmed after a reorg */
+  unconfirmDeposit = async (
+    txid: string
+  ) => {
+    try {
+      const { count } = await this.prisma.deposit.updateMany({
+        where: { txid, confirmed: true },
+        data: { confirmed: false, blockHeight: null }
+      });
+      return count > 0;
+    } catch (e: any) {
+      throw new Error(`unconfirmDeposit: ${e.message}`);
+    }
+  };
+  /**
+   * Mark the deposits of `txid` as reverted; the rows are kept for auditing  
+   * Return each deposit with the `platformId`s to notify its user; none if
+   * the deposits do not exist or were already reverted
+   */
+  revertDeposit = async (
+    txid: string
+  ) => {
+    try {
+      const { count } = await this.prisma.deposit.updateMany({
+        where: { txid, reverted: false },
+        data: { reverted: true, confirmed: false, blockHeight: null }
+      });
+      if (count < 1) {
+        return [];
+      }
+      return await this.prisma.deposit.findMany({
+        where: { txid },
+        select: {
+          outIdx: true,
+          value: true,
+          userId: true,
+          user: {
+            select: {
+              accountId: true,
+              telegram: true,
+              twitter: true,
+              discord: true
+            }
+          }
+        }
+      });
+    } catch (e: any) {
+      throw new Error(`revertDeposit: ${e.message}`);
+    }
+  };
+  /** Get the most recent audit log entries of `action` */
+  getAuditLogs = async (
+    action: string,
+    limit: number
+  ) => {
+    try {
+      const result = await this.prisma.auditLog.findMany({
+        where: { action },
+        orderBy: { timestamp: 'desc' },
+        take: limit
+      });
+      return result.map(log => ({ ...log, data: JSON.parse(log.data) }));
+    } catch (e: any) {
+      throw new Error(`getAuditLogs: ${e.message}`);
+    }
+  };
+  /** Record an operator-relevant action in the audit log */
+  saveAuditLog = async ({
+    action,
+    userId,
+    data
+  }: AuditLog) => {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          timestamp: new Date(),
+          action,
+          userId,
+          data: JSON.stringify(data)
+        }
+      });
+      log.info(`audit: ${action}`, { userId, ...data });
+    } catch (e: any) {
+      throw new Error(`saveAuditLog: ${e.message}`);
+    }
+  };
   deleteGive = async (
     txid: string
   ) => {
     try {
-      await this.prisma.give.delete({
+      await this.prisma.give.deleteMany({
         where: { txid }
       });
     } catch (e: any) {
@@ -279,6 +909,57 @@ export class Database {
       throw new Error(`deleteWithdrawal: ${e.message}`);
     }
   };
+  /**
+   * Delete our give or withdrawal `txid` that was dropped by the network,
+   * along with its `settle` ledger entries  
+   * Return the sender and the users whose UTXOs settled the withdrawal; none
+   * if `txid` is not one of our sent txs
+   */
+  revertSentTx = async (
+    txid: string
+  ) => {
+    try {
+      const sender = { select: { id: true, accountId: true } };
+      const [ gives, withdrawal, entries ] = await this._execTransaction([
+        this.prisma.give.findMany({
+          where: { txid, onChain: true },
+          select: { value: true, from: sender }
+        }),
+        this.prisma.withdrawal.findFirst({
+          where: { txid },
+          select: { value: true, user: sender }
+        }),
+        this.prisma.ledgerEntry.findMany({
+          where: { reference: txid, type: 'settle' },
+          select: { userId: true }
+        }),
+        this.prisma.give.deleteMany({ where: { txid, onChain: true } }),
+        this.prisma.withdrawal.deleteMany({ where: { txid } }),
+        this.prisma.ledgerEntry.deleteMany({
+          where: { reference: txid, type: 'settle' }
+        })
+      ]);
+      if (gives.length > 0) {
+        return {
+          command: 'give',
+          userId: <string>gives[0].from.id,
+          accountId: <string>gives[0].from.accountId,
+          value: gives.reduce((sats, give) => sats + Number(give.value), 0),
+          settleUserIds: <string[]>[]
+        };
+      } else if (withdrawal) {
+        return {
+          command: 'withdraw',
+          userId: <string>withdrawal.user.id,
+          accountId: <string>withdrawal.user.accountId,
+          value: Number(withdrawal.value),
+          settleUserIds: <string[]>entries.map(entry => entry.userId)
+        };
+      }
+    } catch (e: any) {
+      throw new Error(`revertSentTx: ${e.message}`);
+    }
+  };
   saveGive = async (
     data: Give
   ) => {
@@ -288,6 +969,166 @@ export class Database {
       throw new Error(`saveGive: ${e.message}`);
     }
   };
+  /** Save all Gives of a multi-recipient tx atomically */
+  saveGives = async (
+    data: Give[]
+  ) => {
+    try {
+      await this._execTransaction(
+        data.map(give => this.prisma.give.create({ data: give }))
+      );
+    } catch (e: any) {
+      throw new Error(`saveGives: ${e.message}`);
+    }
+  };
+  /**
+   * Save off-chain Gives along with their `give`/`receive` ledger entries  
+   * All-or-nothing, so the ledger always sums to zero
+   */
+  saveLedgerGives = async (
+    data: Give[]
+  ) => {
+    try {
+      const inserts = [];
+      for (const give of data) {
+        const { txid: reference, timestamp, fromId, toId, value } = give;
+        inserts.push(
+          this.prisma.give.create({ data: { ...give, onChain: false } }),
+          this.prisma.ledgerEntry.create({ data: {
+            userId: fromId, value: `-${value}`, type: 'give', reference, timestamp
+          }}),
+          this.prisma.ledgerEntry.create({ data: {
+            userId: toId, value, type: 'receive', reference, timestamp
+          }})
+        );
+      }
+      await this._execTransaction(inserts);
+    } catch (e: any) {
+      throw new Error(`saveLedgerGives: ${e.message}`);
+    }
+  };
+  saveLedgerEntries = async (
+    data: LedgerEntry[]
+  ) => {
+    try {
+      await this._execTransaction(
+        data.map(entry => this.prisma.ledgerEntry.create({ data: entry }))
+      );
+    } catch (e: any) {
+      throw new Error(`saveLedgerEntries: ${e.message}`);
+    }
+  };
+  deleteLedgerEntries = async (
+    reference: string
+  ) => {
+    try {
+      await this.prisma.ledgerEntry.deleteMany({
+        where: { reference }
+      });
+    } catch (e: any) {
+      throw new Error(`deleteLedgerEntries: ${e.message}`);
+    }
+  };
+  /**
+   * Claim `key` before processing its command  
+   * Return `false` if the key was already claimed
+   */
+  claimIdempotencyKey = async (
+    key: string
+  ) => {
+    try {
+      await this.prisma.idempotencyKey.create({
+        data: { key, timestamp: new Date() }
+      });
+      return true;
+    } catch (e: any) {
+      // unique constraint violation
+      if (e.code == 'P2002') {
+        return false;
+      }
+      throw new Error(`claimIdempotencyKey: ${e.message}`);
+    }
+  };
+  /** Get the saved command result of `key`, if processing has finished */
+  getIdempotencyKeyResult = async (
+    key: string
+  ) => {
+    try {
+      const result = await this.prisma.idempotencyKey.findFirst({
+        where: { key },
+        select: { result: true }
+      });
+      return typeof result?.result == 'string'
+        ? JSON.parse(result.result)
+        : undefined;
+    } catch (e: any) {
+      throw new Error(`getIdempotencyKeyResult: ${e.message}`);
+    }
+  };
+  saveIdempotencyKeyResult = async (
+    key: string,
+    result: any
+  ) => {
+    try {
+      await this.prisma.idempotencyKey.update({
+        where: { key },
+        data: { result: JSON.stringify(result) }
+      });
+    } catch (e: any) {
+      throw new Error(`saveIdempotencyKeyResult: ${e.message}`);
+    }
+  };
+  deleteIdempotencyKey = async (
+    key: string
+  ) => {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { key }
+      });
+    } catch (e: any) {
+      throw new Error(`deleteIdempotencyKey: ${e.message}`);
+    }
+  };
+  /** Delete the keys claimed before `timestamp` */
+  deleteIdempotencyKeys = async (
+    timestamp: Date
+  ) => {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { timestamp: { lt: timestamp } }
+      });
+    } catch (e: any) {
+      throw new Error(`deleteIdempotencyKeys: ${e.message}`);
+    }
+  };
+  /** Get the id of the newest processed item of the polled feed `name` */
+  getPollCursor = async (
+    name: string
+  ) => {
+    try {
+      const result = await this.prisma.pollCursor.findFirst({
+        where: { name },
+        select: { value: true }
+      });
+      return result?.value;
+    } catch (e: any) {
+      throw new Error(`getPollCursor: ${e.message}`);
+    }
+  };
+  savePollCursor = async (
+    name: string,
+    value: string
+  ) => {
+    try {
+      await this.prisma.pollCursor.upsert({
+        where: { name },
+        create: { name, value },
+        update: { value }
+      });
+    } catch (e: any) {
+      throw new Error(`savePollCursor: ${e.message}`);
+    }
+  };
   saveWithdrawal = async (
     data: Withdrawal
   ) => {
@@ -297,6 +1138,250 @@ export class Database {
       throw new Error(`saveWithdrawal: ${e.message}`);
     }
   };
+  /**
+   * Get the sats withdrawn by all users of `accountId` since `since`,
+   * including withdrawal requests that are pending or being approved  
+   * `excludeRequestId` leaves out the request that is being approved
+   */
+  getAccountWithdrawalTotal = async (
+    accountId: string,
+    since: Date,
+    excludeRequestId?: string
+  ) => {
+    try {
+      const [ withdrawals, requests ] = await this._execTransaction([
+        this.prisma.withdrawal.findMany({
+          where: { user: { accountId }, timestamp: { gte: since } },
+          select: { value: true }
+        }),
+        this.prisma.withdrawalRequest.findMany({
+          where: {
+            user: { accountId },
+            // Approved requests are counted by their `Withdrawal` once sent
+            OR: [
+              { status: 'pending' },
+              { status: 'approved', txid: null }
+            ],
+            timestamp: { gte: since },
+            ...(excludeRequestId && { id: { not: excludeRequestId } })
+          },
+          select: { value: true }
+        })
+      ]);
+      return [ ...withdrawals, ...requests ]
+        .reduce((total, { value }) => total + Number(value), 0);
+    } catch (e: any) {
+      throw new Error(`getAccountWithdrawalTotal: ${e.message}`);
+    }
+  };
+  saveWithdrawalRequest = async (
+    data: WithdrawalRequest
+  ) => {
+    try {
+      await this.prisma.withdrawalRequest.create({
+        data: { ...data, status: 'pending' }
+      });
+    } catch (e: any) {
+      throw new Error(`saveWithdrawalRequest: ${e.message}`);
+    }
+  };
+  /** Get the withdrawal request `id`, with the `accountId` of its user */
+  getWithdrawalRequest = async (
+    id: string
+  ) => {
+    try {
+      return await this.prisma.withdrawalRequest.findFirst({
+        where: { id },
+        include: { user: { select: { accountId: true } } }
+      });
+    } catch (e: any) {
+      throw new Error(`getWithdrawalRequest: ${e.message}`);
+    }
+  };
+  /** Get the withdrawal requests with `status`, oldest first */
+  getWithdrawalRequests = async (
+    status: WithdrawalRequestStatus
+  ) => {
+    try {
+      return await this.prisma.withdrawalRequest.findMany({
+        where: { status },
+        orderBy: { timestamp: 'asc' }
+      });
+    } catch (e: any) {
+      throw new Error(`getWithdrawalRequests: ${e.message}`);
+    }
+  };
+  /**
+   * Update the withdrawal request `id` if its status is still `from`  
+   * Return `false` if it was not, e.g. another admin reviewed it first
+   */
+  updateWithdrawalRequest = async (
+    id: string,
+    from: WithdrawalRequestStatus,
+    data: {
+      status: WithdrawalRequestStatus,
+      reviewedBy?: string,
+      reviewedAt?: Date,
+      reason?: string,
+      txid?: string
+    }
+  ) => {
+    try {
+      const { count } = await this.prisma.withdrawalRequest.updateMany({
+        where: { id, status: from },
+        data
+      });
+      return count > 0;
+    } catch (e: any) {
+      throw new Error(`updateWithdrawalRequest: ${e.message}`);
+    }
+  };
+  saveApiToken = async (
+    data: ApiToken
+  ) => {
+    try {
+      await this.prisma.apiToken.create({ data });
+    } catch (e: any) {
+      throw new Error(`saveApiToken: ${e.message}`);
+    }
+  };
+  /** Get the unrevoked API token with `tokenHash` and update its last use */
+  useApiToken = async (
+    tokenHash: string
+  ) => {
+    try {
+      const token = await this.prisma.apiToken.findFirst({
+        where: { tokenHash, revoked: false },
+        select: { id: true, name: true }
+      });
+      if (token) {
+        await this.prisma.apiToken.update({
+          where: { id: token.id },
+          data: { lastUsed: new Date() }
+        });
+      }
+      return token;
+    } catch (e: any) {
+      throw new Error(`useApiToken: ${e.message}`);
+    }
+  };
+  getApiTokens = async () => {
+    try {
+      return await this.prisma.apiToken.findMany({
+        select: { name: true, timestamp: true, lastUsed: true, revoked: true },
+        orderBy: { timestamp: 'asc' }
+      });
+    } catch (e: any) {
+      throw new Error(`getApiTokens: ${e.message}`);
+    }
+  };
+  /** Revoke the API token `name`; return `false` if there is none */
+  revokeApiToken = async (
+    name: string
+  ) => {
+    try {
+      const { count } = await this.prisma.apiToken.updateMany({
+        where: { name, revoked: false },
+        data: { revoked: true }
+      });
+      return count > 0;
+    } catch (e: any) {
+      throw new Error(`revokeApiToken: ${e.message}`);
+    }
+  };
+  saveWebhook = async (
+    data: Webhook
+  ) => {
+    try {
+      await this.prisma.webhook.create({ data });
+    } catch (e: any) {
+      throw new Error(`saveWebhook: ${e.message}`);
+    }
+  };
+  /** Delete the webhook `url` and its deliveries; return `false` if none */
+  deleteWebhook = async (
+    url: string
+  ) => {
+    try {
+      const { count } = await this.prisma.webhook.deleteMany({
+        where: { url }
+      });
+      return count > 0;
+    } catch (e: any) {
+      throw new Error(`deleteWebhook: ${e.message}`);
+    }
+  };
+  getWebhooks = async () => {
+    try {
+      return await this.prisma.webhook.findMany({
+        orderBy: { timestamp: 'asc' }
+      });
+    } catch (e: any) {
+      throw new Error(`getWebhooks: ${e.message}`);
+    }
+  };
+  /** Queue deliveries for their first attempt */
+  saveWebhookDeliveries = async (
+    data: WebhookDelivery[]
+  ) => {
+    try {
+      const inserts = data.map(delivery => {
+        return this.prisma.webhookDelivery.create({
+          data: {
+            ...delivery,
+            status: 'pending',
+            nextAttempt: delivery.timestamp
+          }
+        });
+      });
+      await this._execTransaction(inserts);
+    } catch (e: any) {
+      throw new Error(`saveWebhookDeliveries: ${e.message}`);
+    }
+  };
+  /** Get up to `limit` pending deliveries due by `now`, with their webhook */
+  getDueWebhookDeliveries = async (
+    now: Date,
+    limit: number
+  ) => {
+    try {
+      return await this.prisma.webhookDelivery.findMany({
+        where: { status: 'pending', nextAttempt: { lte: now } },
+        include: { webhook: { select: { url: true, secret: true } } },
+        orderBy: { nextAttempt: 'asc' },
+        take: limit
+      });
+    } catch (e: any) {
+      throw new Error(`getDueWebhookDeliveries: ${e.message}`);
+    }
+  };
+  updateWebhookDelivery = async (
+    id: string,
+    data: {
+      status: WebhookDeliveryStatus,
+      attempts: number,
+      nextAttempt?: Date,
+      lastError?: string,
+      deliveredAt?: Date
+    }
+  ) => {
+    try {
+      await this.prisma.webhookDelivery.update({ where: { id }, data });
+    } catch (e: any) {
+      throw new Error(`updateWebhookDelivery: ${e.message}`);
+    }
+  };
+  /** Count the deliveries of each webhook by status */
+  getWebhookDeliveryCounts = async () => {
+    try {
+      return await this.prisma.webhookDelivery.groupBy({
+        by: [ 'webhookId', 'status' ],
+        _count: { _all: true }
+      });
+    } catch (e: any) {
+      throw new Error(`getWebhookDeliveryCounts: ${e.message}`);
+    }
+  };
 
   private _execTransaction = async (
     inserts: any[]
@@ -1,21 +1,146 @@
 import { PlatformName } from './platforms';
 import * as Util from '../util';
-import { TRANSACTION } from '../util/constants';
+import { BOT, TRANSACTION } from '../util/constants';
+import config from '../config';
 import {
   AccountUtxo,
+  ConfirmedTx,
+  KeyIndexes,
+  RevertedTx,
   WalletManager,
 } from './wallet';
 import {
   Database,
 } from './database';
+import { Reserves, ReservesReport } from './reserves';
 import { EventEmitter } from 'events';
+import { RateLimiter } from '../util/ratelimit';
+import { hashToken } from '../util/crypto';
+import logger, { Logger, LogFields } from '../util/logger';
+import { Transaction } from '../local_modules/bitcore-lib-xpi';
 
-// Constants used for logging purposes
-const WALLET = 'walletmanager';
-const DB = 'prisma';
-const MAIN = 'handler';
+const log = logger.child({ module: 'handler' });
 
-const { MIN_OUTPUT_AMOUNT } = TRANSACTION;
+const { DUST_LIMIT, MIN_OUTPUT_AMOUNT, MAX_RAIN_RECIPIENTS } = TRANSACTION;
+const PLATFORMS: PlatformName[] = [ 'telegram', 'twitter', 'discord' ];
+/** Returned by the commands that frozen accounts cannot use */
+const ACCOUNT_FROZEN = 'your account is frozen; please contact an administrator';
+const {
+  ADMIN_FAILURES_LIMIT,
+  HISTORY_PAGE_SIZE,
+  IDEMPOTENCY_KEY_RETENTION,
+  IDEMPOTENCY_KEY_CLEANUP_INTERVAL,
+  WITHDRAW_LIMIT_PERIOD,
+  WITHDRAW_CONFIRM_TIMEOUT,
+  LINK_CONFIRM_TIMEOUT,
+  LINK_SECRET_TTL
+} = BOT;
+
+/** Account balance breakdown, in XPI */
+export type AccountBalance = {
+  total: string,
+  /** Amount usable by Give/Withdraw */
+  spendable: string,
+  confirmed: string,
+  unconfirmed: string,
+  /** Unconfirmed change of withdrawals not yet mined */
+  locked: string,
+  /** Off-chain ledger balance, included in `total`; negative if owed */
+  ledger: string
+};
+/** Account history entry, in XPI */
+export type HistoryEntry = {
+  type: 'deposit' | 'withdrawal' | 'give' | 'receive',
+  txid: string,
+  amount: string,
+  timestamp: Date,
+  /** Username of the other user of a Give, if known */
+  counterparty?: string,
+  /** Off-chain Gives have no tx on the Explorer */
+  onChain: boolean
+};
+/** Account details of a user, for admins and the HTTP API */
+export type AccountInfo = {
+  accountId: string,
+  userId: string,
+  frozen: boolean,
+  /** `platform:platformId` of every user of the account */
+  users: string[],
+  addresses: string[],
+  balance: string
+};
+/** Failed tx broadcast, from the audit log */
+export type BroadcastFailure = {
+  timestamp: Date,
+  userId: string,
+  /** Command that generated the tx, e.g. `give` */
+  command: string,
+  txid: string,
+  error: string
+};
+/** Withdrawal above the approval threshold, queued for an admin */
+export type QueuedWithdrawal = {
+  requestId: string,
+  /** Amount requested */
+  amount: string
+};
+/** Withdrawal request awaiting admin approval */
+export type WithdrawalRequest = {
+  requestId: string,
+  /** `platform:platformId` of the user */
+  user: string,
+  amount: string,
+  outAddress: string,
+  timestamp: Date
+};
+/** Withdrawal tx generated by a preview, held until confirmed */
+type PendingWithdrawal = {
+  platform: PlatformName,
+  platformId: string,
+  accountId: string,
+  userId: string,
+  /** Amount requested, in satoshis */
+  sats: number,
+  /** Service fee paid to the treasury, in satoshis */
+  serviceFee: number,
+  tx: Transaction,
+  /** Discards the withdrawal and releases its UTXOs once it expires */
+  timeout: NodeJS.Timeout
+};
+/** Link preview, in XPI */
+export type LinkPreview = {
+  linkId: string,
+  /** Number of users moved into the account that is kept */
+  users: number,
+  /** Whether the account of the user is kept, rather than the other one */
+  keepOwn: boolean,
+  /** Balance of the linked account */
+  balance: string
+};
+/** Unlink preview, in XPI */
+export type UnlinkPreview = {
+  linkId: string,
+  /** Balance of the user's new account */
+  balance: string,
+  /** Balance left to the users that stay linked */
+  remaining: string
+};
+/** Link or unlink held until confirmed by the user */
+type PendingLink = {
+  platform: PlatformName,
+  platformId: string,
+  type: 'link' | 'unlink',
+  /** User that requested the link or unlink */
+  userId: string,
+  /** Account whose users are moved; an unlink moves only `userId` */
+  fromAccountId: string,
+  /** Account that is kept by a link, or the new account of an unlink */
+  toAccountId: string,
+  /** Hash of the link secret, used up once the link is confirmed */
+  secretHash?: string,
+  /** Discards the link once it expires */
+  timeout: NodeJS.Timeout
+};
 /**
  * Master class  
  * Processes all platform commands  
@@ -24,255 +149,1815 @@ const { MIN_OUTPUT_AMOUNT } = TRANSACTION;
 export class Handler extends EventEmitter {
   private prisma: Database;
   private wallet: WalletManager;
+  /** Withdrawals awaiting user confirmation, by `withdrawalId` */
+  private pendingWithdrawals: { [withdrawalId: string]: PendingWithdrawal } = {};
+  /** Links and unlinks awaiting user confirmation, by `linkId` */
+  private pendingLinks: { [linkId: string]: PendingLink } = {};
+  /** Gives by `accountId`, shared by all linked platform users */
+  private userGiveLimiter: RateLimiter;
+  /** Gives by `platform:chatId` */
+  private chatGiveLimiter: RateLimiter;
+  private reserves: Reserves;
+  /** Deletes expired idempotency keys, off the command path */
+  private idempotencyKeyTimer: NodeJS.Timeout;
 
+  /** `now` is the clock of the rate limiters, e.g. a fake clock for testing */
   constructor(
     prisma: Database,
-    wallet: WalletManager
+    wallet: WalletManager,
+    now: () => number = Date.now
   ) {
     super();
     this.prisma = prisma;
     this.wallet = wallet;
+    const { givesPerUser, givesPerChat, giveWindow } = config.limits;
+    this.userGiveLimiter = new RateLimiter(givesPerUser, giveWindow, now);
+    this.chatGiveLimiter = new RateLimiter(givesPerChat, giveWindow, now);
+    this.reserves = new Reserves(prisma, wallet);
     // Set up event handlers once we are ready
     this.wallet.on('AddedToMempool', this.walletUtxoAddedToMempool);
+    this.wallet.on('Confirmed', this.walletTxConfirmed);
+    this.wallet.on('Unconfirmed', this.walletTxUnconfirmed);
+    this.wallet.on('Reverted', this.walletTxReverted);
+    this.wallet.on('IndexesChanged', this.walletIndexesChanged);
+  };
+  /* Called by any bot module that runs into unrecoverable error */
+  shutdown = () => this.emit('Shutdown');
+  /** Stop the timers started by `init` */
+  close = () => {
+    clearInterval(this.idempotencyKeyTimer);
+  };
+  /**
+   * Make sure we process deposits we received while offline  
+   * Start deleting expired idempotency keys
+   */
+  init = async () => {
+    await this._deleteIdempotencyKeys();
+    this.idempotencyKeyTimer = setInterval(
+      this._deleteIdempotencyKeys,
+      IDEMPOTENCY_KEY_CLEANUP_INTERVAL
+    );
+    log.info('reconciling deposits with UTXO set');
+    try {
+      const utxos = this.wallet.getUtxos();
+      const deposits = await this.prisma.getDeposits();
+      const newDeposits = utxos.filter(u => deposits.findIndex(d => {
+        return u.txid == d.txid && u.outIdx == d.outIdx;
+      }) < 0);
+      for (const deposit of newDeposits) {
+        await this._saveDeposit(deposit);
+      }
+      // Confirm deposits that were mined while we were offline
+      const unconfirmed = await this.prisma.getUnconfirmedDeposits();
+      for (const deposit of unconfirmed) {
+        const utxo = utxos.find(u => u.txid == deposit.txid);
+        if (utxo?.blockHeight >= 0) {
+          await this._confirmDeposit(utxo.txid, utxo.blockHeight);
+        }
+      }
+    } catch (e: any) {
+      throw new Error(`init: ${e.message}`);
+    }
+  };
+  /**  */
+  walletUtxoAddedToMempool = async (
+    utxo: AccountUtxo
+  ) => {
+    try {
+      await this._saveDeposit(utxo);
+    } catch (e: any) {
+      log.error('FATAL: walletUtxoAddedToMempool failed', {
+        txid: utxo.txid,
+        error: e.message
+      });
+      this.shutdown();
+    }
+  };
+  /** Mark any deposit of the confirmed tx as confirmed and notify the user */
+  walletTxConfirmed = async ({
+    txid,
+    blockHeight
+  }: ConfirmedTx) => {
+    try {
+      await this._confirmDeposit(txid, blockHeight);
+    } catch (e: any) {
+      log.error('walletTxConfirmed failed', { txid, error: e.message });
+    }
+  };
+  /** Reorged tx is back in the mempool; unconfirm any deposit of the tx */
+  walletTxUnconfirmed = async (
+    txid: string
+  ) => {
+    try {
+      if (await this.prisma.unconfirmDeposit(txid)) {
+        log.info('deposit unconfirmed after reorg', { txid });
+      }
+    } catch (e: any) {
+      log.error('walletTxUnconfirmed failed', { txid, error: e.message });
+    }
+  };
+  /**
+   * Tx was dropped from the network; revert any deposit of the tx, or the
+   * give or withdrawal if we sent it
+   */
+  walletTxReverted = async ({
+    txid,
+    utxos
+  }: RevertedTx) => {
+    try {
+      log.info('UTXOs reverted', { txid, utxos });
+      await this._revertDeposit(txid);
+      await this._revertSentTx(txid);
+    } catch (e: any) {
+      log.error('walletTxReverted failed', { txid, error: e.message });
+    }
+  };
+  /** A new address was derived; save the indexes to load it on restart */
+  walletIndexesChanged = async ({
+    userId,
+    receiveIndex,
+    changeIndex
+  }: KeyIndexes) => {
+    try {
+      await this.prisma.updateWalletKeyIndexes(
+        userId,
+        receiveIndex,
+        changeIndex
+      );
+    } catch (e: any) {
+      log.error('walletIndexesChanged failed', { userId, error: e.message });
+    }
+  };
+
+  processBalanceCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<AccountBalance> => {
+    this._commandReceived(platform, platformId, 'balance');
+    const { accountId } = await this._getIds(platform, platformId);
+    const utxos = await this.wallet.getAccountUtxos(accountId);
+    const withdrawTxids = await this.prisma.getWithdrawTxids(
+      utxos.filter(utxo => utxo.blockHeight < 0).map(utxo => utxo.txid)
+    );
+    let confirmed = 0, unconfirmed = 0, locked = 0, spendable = 0;
+    for (const utxo of utxos) {
+      const sats = Number(utxo.value);
+      if (this.wallet.isAvailableUtxo(utxo)) {
+        spendable += sats;
+      }
+      if (utxo.blockHeight >= 0) {
+        confirmed += sats;
+      } else if (withdrawTxids.has(utxo.txid)) {
+        locked += sats;
+      } else {
+        unconfirmed += sats;
+      }
+    }
+    // off-chain ledger entries are final, but may be negative for debtors;
+    // `confirmed` covers UTXOs only
+    const ledger = config.wallet.ledger
+      ? await this.prisma.getAccountLedgerBalance(accountId)
+      : 0;
+    return {
+      total: Util.toXPI(confirmed + unconfirmed + locked + ledger),
+      spendable: Util.toXPI(spendable + ledger),
+      confirmed: Util.toXPI(confirmed),
+      unconfirmed: Util.toXPI(unconfirmed),
+      locked: Util.toXPI(locked),
+      ledger: Util.toXPI(ledger)
+    };
+  };
+
+  /** Get one page of the account's history, newest first */
+  processHistoryCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    page = 1,
+  ): Promise<{ page: number, pages: number, entries: HistoryEntry[] }> => {
+    this._commandReceived(platform, platformId, 'history', { page });
+    const { accountId } = await this._getIds(platform, platformId);
+    const history = await this.prisma.getAccountHistory(
+      accountId,
+      page,
+      HISTORY_PAGE_SIZE
+    );
+    return {
+      page: history.page,
+      pages: history.pages,
+      entries: history.entries.map(entry => {
+        return {
+          type: entry.type,
+          txid: entry.txid,
+          amount: Util.toXPI(entry.value),
+          timestamp: entry.timestamp,
+          counterparty: entry.counterparty,
+          onChain: entry.onChain
+        };
+      })
+    };
+  };
+  
+  processDepositCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ) => {
+    this._commandReceived(platform, platformId, 'deposit');
+    const { userId } = await this._getIds(platform, platformId);
+    return this.wallet.getXAddress(userId);
+  };
+
+  processGiveCommand = async (
+    platform: PlatformName,
+    fromId: string,
+    fromUsername: string,
+    toId: string,
+    toUsername: string,
+    value: string,
+    chatId: string | undefined,
+    idempotencyKey?: string,
+  ): Promise<{
+    txid: string,
+    amount: string,
+    onChain: boolean
+  } | string> => {
+    return await this._runIdempotent(idempotencyKey, async () => {
+      const sats = Util.toSats(value);
+      const msg = `${fromId}: give: ${sats} sats -> ${toId}`;
+      const log = this._commandReceived(platform, fromId, 'give', {
+        toId,
+        sats
+      });
+      const minGive = this._getMinGive(platform);
+      if (sats < minGive) {
+        return `minimum give is ${Util.toXPI(minGive)} XPI`;
+      }
+      // Create account for fromId if not exist
+      const {
+        accountId: fromAccountId,
+        userId: fromUserId
+      } = await this._getIds(platform, fromId);
+      if (await this.isAccountFrozen(fromAccountId)) {
+        log.warn('account is frozen');
+        return ACCOUNT_FROZEN;
+      }
+      // Serialize spending from the account until the tx is broadcasted
+      const release = await this.wallet.lockAccount(fromAccountId);
+      try {
+        const cooldown = this._checkGiveLimit(platform, fromAccountId, chatId);
+        if (cooldown) {
+          log.warn('rate limited');
+          return cooldown;
+        }
+        const balance = await this._getSpendableBalance(fromAccountId);
+        if (sats > balance) {
+          throw new Error(`${msg}: ERROR: insufficient balance: ${balance}`);
+        }
+        // Create account for toId if not exist
+        const {
+          userId: toUserId
+        } = await this._getIds(platform, toId);
+        // Off-chain give; only recorded in the ledger
+        if (config.wallet.ledger) {
+          const txid = Util.newUUID();
+          try {
+            await this.prisma.saveLedgerGives([{
+              txid,
+              platform: platform.toLowerCase(),
+              timestamp: new Date(),
+              fromId: fromUserId,
+              toId: toUserId,
+              fromUsername,
+              toUsername,
+              value: sats.toString()
+            }]);
+          } catch (e: any) {
+            throw new Error(`${msg}: ERROR: failed to save give: ${e.message}`);
+          }
+          log.info('saved to ledger', { txid });
+          this._recordGive(platform, fromAccountId, chatId);
+          this.emit('GiveSent', {
+            platform,
+            fromId,
+            toIds: [ toId ],
+            txid,
+            amount: Util.toXPI(sats),
+            onChain: false
+          });
+          return { txid, amount: Util.toXPI(sats), onChain: false };
+        }
+        // Give successful; broadcast tx and save to db
+        const tx = await this.wallet.genTx({
+          fromAccountId,
+          toUserId,
+          sats
+        });
+        // The fee may be taken out of the output if the balance is short, so
+        // save what the recipient actually receives
+        const amountSats = tx.outputs[0].satoshis;
+        // save give to database before broadcasting
+        try {
+          await this.prisma.saveGive({
+            txid: tx.txid,
+            platform: platform.toLowerCase(),
+            timestamp: new Date(),
+            fromId: fromUserId,
+            toId: toUserId,
+            fromUsername,
+            toUsername,
+            value: amountSats.toString(),
+            fee: (tx.inputAmount - tx.outputAmount).toString()
+          });
+        } catch (e: any) {
+          this.wallet.releaseTx(tx);
+          throw new Error(`${msg}: ERROR: failed to save give: ${e.message}`);
+        }
+        log.info('saved to db', { txid: tx.txid });
+        // try to broadcast the give tx
+        try {
+          const txid = await this.wallet.broadcastTx(tx);
+          log.info('accepted by network', { txid });
+        } catch (e: any) {
+          await this.prisma.deleteGive(tx.txid);
+          await this._saveBroadcastFailure(fromUserId, 'give', tx, e.message);
+          throw new Error(`${msg}: ERROR: broadcast failed: ${e.message}`);
+        }
+        const amount = Util.toXPI(amountSats);
+        this._recordGive(platform, fromAccountId, chatId);
+        this.emit('GiveSent', {
+          platform,
+          fromId,
+          toIds: [ toId ],
+          txid: tx.txid,
+          amount,
+          onChain: true
+        });
+        // return broadcasted tx data
+        return { txid: tx.txid, amount, onChain: true };
+      } finally {
+        release();
+      }
+    });
+  };
+
+  /**
+   * Give to multiple users in one tx  
+   * `value` is split between all recipients, or given to `each` recipient
+   */
+  processRainCommand = async (
+    platform: PlatformName,
+    fromId: string,
+    fromUsername: string,
+    recipients: Array<{ platformId: string, username: string }>,
+    value: string,
+    each: boolean,
+    chatId: string | undefined,
+    idempotencyKey?: string,
+  ): Promise<{
+    txid: string,
+    amount: string,
+    usernames: string[],
+    onChain: boolean
+  } | string> => {
+    return await this._runIdempotent(idempotencyKey, async () => {
+      // ignore duplicate recipients and the giver
+      const to = recipients.filter((recipient, i) => {
+        return recipient.platformId != fromId && recipients.findIndex(
+          r => r.platformId == recipient.platformId
+        ) == i;
+      });
+      const msg =
+        `${fromId}: rain: ${value} XPI${each ? ' each' : ''} -> ` +
+        `${to.length} users`;
+      const log = this._commandReceived(platform, fromId, 'rain', {
+        toIds: to.map(recipient => recipient.platformId),
+        value,
+        each
+      });
+      if (to.length < 1) {
+        return `no recipients`;
+      } else if (to.length > MAX_RAIN_RECIPIENTS) {
+        return `maximum recipients: ${MAX_RAIN_RECIPIENTS}`;
+      }
+      const sats = each
+        ? Util.toSats(value)
+        : Math.floor(Util.toSats(value) / to.length);
+      const minGive = this._getMinGive(platform);
+      if (sats < minGive) {
+        return `minimum rain is ${Util.toXPI(minGive)} XPI per user`;
+      }
+      const {
+        accountId: fromAccountId,
+        userId: fromUserId
+      } = await this._getIds(platform, fromId);
+      if (await this.isAccountFrozen(fromAccountId)) {
+        log.warn('account is frozen');
+        return ACCOUNT_FROZEN;
+      }
+      // Serialize spending from the account until the tx is broadcasted
+      const release = await this.wallet.lockAccount(fromAccountId);
+      try {
+        const cooldown = this._checkGiveLimit(platform, fromAccountId, chatId);
+        if (cooldown) {
+          log.warn('rate limited');
+          return cooldown;
+        }
+        const balance = await this._getSpendableBalance(fromAccountId);
+        if (sats * to.length > balance) {
+          throw new Error(`${msg}: ERROR: insufficient balance: ${balance}`);
+        }
+        // Create accounts for recipients if not exist
+        const toUserIds: string[] = [];
+        for (const recipient of to) {
+          const { userId } = await this._getIds(platform, recipient.platformId);
+          toUserIds.push(userId);
+        }
+        const usernames = to.map(recipient => recipient.username);
+        // Off-chain rain; only recorded in the ledger
+        if (config.wallet.ledger) {
+          const txid = Util.newUUID();
+          try {
+            const timestamp = new Date();
+            await this.prisma.saveLedgerGives(
+              toUserIds.map((toUserId, i) => {
+                return {
+                  txid,
+                  platform: platform.toLowerCase(),
+                  timestamp,
+                  fromId: fromUserId,
+                  toId: toUserId,
+                  fromUsername,
+                  toUsername: usernames[i],
+                  value: sats.toString()
+                };
+              })
+            );
+          } catch (e: any) {
+            throw new Error(`${msg}: ERROR: failed to save gives: ${e.message}`);
+          }
+          log.info('saved to ledger', { txid });
+          this._recordGive(platform, fromAccountId, chatId);
+          this.emit('GiveSent', {
+            platform,
+            fromId,
+            toIds: to.map(recipient => recipient.platformId),
+            txid,
+            amount: Util.toXPI(sats),
+            onChain: false
+          });
+          return { txid, amount: Util.toXPI(sats), usernames, onChain: false };
+        }
+        const tx = await this.wallet.genRainTx({
+          fromAccountId,
+          toUserIds,
+          sats
+        });
+        // save gives to database before broadcasting
+        try {
+          const timestamp = new Date();
+          await this.prisma.saveGives(
+            toUserIds.map((toUserId, i) => {
+              return {
+                txid: tx.txid,
+                platform: platform.toLowerCase(),
+                timestamp,
+                fromId: fromUserId,
+                toId: toUserId,
+                fromUsername,
+                toUsername: usernames[i],
+                value: tx.outputs[i].satoshis.toString(),
+                // The network fee is paid once for the whole rain
+                fee: i == 0
+                  ? (tx.inputAmount - tx.outputAmount).toString()
+                  : '0'
+              };
+            })
+          );
+        } catch (e: any) {
+          this.wallet.releaseTx(tx);
+          throw new Error(`${msg}: ERROR: failed to save gives: ${e.message}`);
+        }
+        log.info('saved to db', { txid: tx.txid });
+        // try to broadcast the rain tx
+        try {
+          const txid = await this.wallet.broadcastTx(tx);
+          log.info('accepted by network', { txid });
+        } catch (e: any) {
+          await this.prisma.deleteGive(tx.txid);
+          await this._saveBroadcastFailure(fromUserId, 'rain', tx, e.message);
+          throw new Error(`${msg}: ERROR: broadcast failed: ${e.message}`);
+        }
+        const amount = Util.toXPI(tx.outputs[0].satoshis);
+        this._recordGive(platform, fromAccountId, chatId);
+        this.emit('GiveSent', {
+          platform,
+          fromId,
+          toIds: to.map(recipient => recipient.platformId),
+          txid: tx.txid,
+          amount,
+          onChain: true
+        });
+        // return broadcasted tx data
+        return { txid: tx.txid, amount, usernames, onChain: true };
+      } finally {
+        release();
+      }
+    });
+  };
+
+  /** Generate, save and broadcast a withdrawal without confirmation */
+  processWithdrawCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    outAmount: string,
+    outAddress: string,
+    idempotencyKey?: string,
+  ): Promise<{
+    txid: string,
+    amount: string
+  } | QueuedWithdrawal | string> => {
+    return await this._runIdempotent(idempotencyKey, async () => {
+      const preview = await this.processWithdrawPreview(
+        platform,
+        platformId,
+        outAmount,
+        outAddress
+      );
+      if (typeof preview == 'string' || 'requestId' in preview) {
+        return preview;
+      }
+      return await this.processWithdrawConfirm(
+        platform,
+        platformId,
+        preview.withdrawalId
+      );
+    });
+  };
+  /**
+   * Generate the withdrawal tx and hold it until the user confirms it  
+   * `outAmount` of `all` or `max` sweeps the whole spendable balance  
+   * Return the exact fee and net amount of the tx, or the request queued for
+   * admin approval if the amount is above the approval threshold
+   */
+  processWithdrawPreview = async (
+    platform: PlatformName,
+    platformId: string,
+    outAmount: string,
+    outAddress: string,
+    idempotencyKey?: string,
+  ): Promise<{
+    withdrawalId: string,
+    /** Amount received at `outAddress` */
+    amount: string,
+    /** Network fee */
+    fee: string,
+    /** Fee charged by the bot */
+    serviceFee: string,
+    /** Amount deducted from the balance */
+    total: string
+  } | QueuedWithdrawal | string> => {
+    return await this._runIdempotent(idempotencyKey, async () => {
+      const log = this._commandReceived(platform, platformId, 'withdraw', {
+        outAmount,
+        outAddress
+      });
+      const sweep = ['all', 'max'].includes(outAmount.toLowerCase());
+      if (!WalletManager.isValidAddress(outAddress)) {
+        return `invalid address: \`${outAddress}\``;
+      } else if (!sweep && Util.toSats(outAmount) < MIN_OUTPUT_AMOUNT) {
+        return `withdraw minimum is ${Util.toXPI(MIN_OUTPUT_AMOUNT)} XPI`;
+      }
+      const {
+        accountId,
+        userId
+      } = await this._getIds(platform, platformId);
+      if (await this.isAccountFrozen(accountId)) {
+        log.warn('account is frozen');
+        return ACCOUNT_FROZEN;
+      }
+      // Serialize spending from the account until the tx is broadcasted
+      const release = await this.wallet.lockAccount(accountId);
+      try {
+        // Check outAddress against every address of the account
+        if (this.wallet.isAccountAddress(accountId, outAddress)) {
+          return `you must withdraw to an external wallet`;
+        }
+        // Get the user's spendable balance and check against outAmount
+        const balance = await this._getSpendableBalance(accountId);
+        const sats = sweep ? balance : Util.toSats(outAmount);
+        if (sats > balance) {
+          return `insufficient balance: ${sats} > ${balance}`;
+        } else if (sats < MIN_OUTPUT_AMOUNT) {
+          return `withdraw minimum is ${Util.toXPI(MIN_OUTPUT_AMOUNT)} XPI`;
+        }
+        const limited = await this._checkWithdrawLimits(accountId, sats);
+        if (limited) {
+          log.warn('withdraw limit reached', { reason: limited });
+          return limited;
+        }
+        // Large withdrawals wait for an admin; no tx is generated until then
+        const approvalSats = Util.toSats(config.limits.withdrawApproval);
+        if (approvalSats > 0 && sats > approvalSats) {
+          const requestId = Util.newUUID();
+          await this.prisma.saveWithdrawalRequest({
+            id: requestId,
+            userId,
+            platform,
+            platformId,
+            value: sats.toString(),
+            outAddress,
+            subtractFee: sweep,
+            timestamp: new Date()
+          });
+          log.info('awaiting approval', { requestId });
+          return { requestId, amount: Util.toXPI(sats) };
+        }
+        // The service fee is paid on top, or out of the sweep
+        const serviceFee = this._getServiceFee(sats);
+        if (!sweep && sats + serviceFee > balance) {
+          return `insufficient balance: ${sats + serviceFee} > ${balance} ` +
+            `(including the service fee)`;
+        } else if (sweep && sats - serviceFee < MIN_OUTPUT_AMOUNT) {
+          return `withdraw minimum after fees is ` +
+            `${Util.toXPI(MIN_OUTPUT_AMOUNT)} XPI`;
+        }
+        // Generate withdrawal tx; off-chain credit is settled from the UTXOs of
+        // users who owe to the ledger
+        const tx = await this.wallet.genTx({
+          fromAccountId: accountId,
+          outAddress,
+          sats: sweep ? sats - serviceFee : sats,
+          settleUserIds: config.wallet.ledger
+            ? await this._getLedgerDebtors(accountId)
+            : [],
+          subtractFee: sweep,
+          serviceFee: {
+            address: config.wallet.withdrawFee.treasury,
+            sats: serviceFee
+          }
+        });
+        const outSats = tx.outputs[0].satoshis;
+        if (outSats < MIN_OUTPUT_AMOUNT) {
+          this.wallet.releaseTx(tx);
+          return `withdraw minimum after fees is ` +
+            `${Util.toXPI(MIN_OUTPUT_AMOUNT)} XPI`;
+        }
+        const fee = tx.inputAmount - tx.outputAmount;
+        // Only one pending withdrawal per user
+        this._clearPendingWithdrawals(platform, platformId);
+        const withdrawalId = Util.newUUID();
+        this.pendingWithdrawals[withdrawalId] = {
+          platform,
+          platformId,
+          accountId,
+          userId,
+          sats,
+          serviceFee,
+          tx,
+          timeout: setTimeout(
+            () => this._discardPendingWithdrawal(withdrawalId),
+            WITHDRAW_CONFIRM_TIMEOUT
+          )
+        };
+        log.info('awaiting confirmation', { withdrawalId });
+        return {
+          withdrawalId,
+          amount: Util.toXPI(outSats),
+          fee: Util.toXPI(fee),
+          serviceFee: Util.toXPI(serviceFee),
+          total: Util.toXPI(outSats + fee + serviceFee)
+        };
+      } finally {
+        release();
+      }
+    });
+  };
+  /**
+   * Save and broadcast the pending withdrawal of `withdrawalId`  
+   * Confirms the user's only pending withdrawal if `withdrawalId` is omitted
+   */
+  processWithdrawConfirm = async (
+    platform: PlatformName,
+    platformId: string,
+    withdrawalId?: string,
+    idempotencyKey?: string,
+  ): Promise<{
+    txid: string,
+    amount: string
+  } | string> => {
+    return await this._runIdempotent(idempotencyKey, async () => {
+      const log = this._commandReceived(
+        platform,
+        platformId,
+        'withdraw_confirm',
+        { withdrawalId }
+      );
+      const pending = this._takePendingWithdrawal(
+        platform,
+        platformId,
+        withdrawalId
+      );
+      if (!pending) {
+        return `withdrawal not found or expired`;
+      }
+      const { accountId, userId, sats, serviceFee, tx } = pending;
+      // The account may have been frozen since the preview
+      if (await this.isAccountFrozen(accountId)) {
+        this.wallet.releaseTx(tx);
+        log.warn('account is frozen');
+        return ACCOUNT_FROZEN;
+      }
+      // Serialize with the withdrawals of linked users until this one is saved
+      const release = await this.wallet.lockAccount(accountId);
+      let result: { txid: string, amount: string };
+      try {
+        // Linked users may have withdrawn since the preview
+        const limited = await this._checkWithdrawLimits(accountId, sats);
+        if (limited) {
+          this.wallet.releaseTx(tx);
+          log.warn('withdraw limit reached', { reason: limited });
+          return limited;
+        }
+        result = await this._sendWithdrawal(
+          log,
+          accountId,
+          userId,
+          serviceFee,
+          tx
+        );
+      } finally {
+        release();
+      }
+      this.emit('WithdrawalSent', {
+        platform,
+        platformId,
+        txid: result.txid,
+        amount: result.amount,
+        serviceFee: Util.toXPI(serviceFee)
+      });
+      return result;
+    });
+  };
+  /**
+   * Discard the pending withdrawal of `withdrawalId`  
+   * Cancels the user's only pending withdrawal if `withdrawalId` is omitted
+   */
+  processWithdrawCancel = async (
+    platform: PlatformName,
+    platformId: string,
+    withdrawalId?: string,
+  ): Promise<{
+    txid: string
+  } | string> => {
+    this._commandReceived(platform, platformId, 'withdraw_cancel', {
+      withdrawalId
+    });
+    const pending = this._takePendingWithdrawal(
+      platform,
+      platformId,
+      withdrawalId
+    );
+    if (!pending) {
+      return `withdrawal not found or expired`;
+    }
+    this.wallet.releaseTx(pending.tx);
+    return { txid: pending.tx.txid };
+  };
+
+  /**
+   * Issue a one-time secret to the user, or preview a link with the account
+   * of `secret`  
+   * The account of the user is merged into the account of `secret`, unless
+   * `keepOwn` is set; the link waits for `processLinkConfirm`
+   */
+  processLinkCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    secret: string | undefined,
+    keepOwn = false,
+  ): Promise<{
+    secret: string
+  } | LinkPreview | string> => {
+    const log = this._commandReceived(platform, platformId, 'link', {
+      initiate: !secret,
+      keepOwn
+    });
+    const { accountId, userId } = await this._getIds(platform, platformId);
+    if (await this.isAccountFrozen(accountId)) {
+      log.warn('account is frozen');
+      return ACCOUNT_FROZEN;
+    }
+    switch (typeof secret) {
+      /** User provided secret to link account */
+      case 'string':
+        // Get the accountId associated with the user with the secret
+        const secretHash = hashToken(secret);
+        const linkAccountId = await this.prisma.getAccountIdFromSecret(
+          secretHash
+        );
+        // sanity checks
+        if (!linkAccountId) {
+          return 'invalid or expired secret provided';
+        } else if (linkAccountId == accountId) {
+          return 'own secret provided or already linked';
+        } else if (await this.isAccountFrozen(linkAccountId)) {
+          log.warn('linked account is frozen');
+          return ACCOUNT_FROZEN;
+        }
+        const fromAccountId = keepOwn ? linkAccountId : accountId;
+        const toAccountId = keepOwn ? accountId : linkAccountId;
+        const userIds = await this.prisma.getAccountUserIds(fromAccountId);
+        const balance = await this._getAccountBalance(accountId)
+          + await this._getAccountBalance(linkAccountId);
+        const linkId = this._addPendingLink({
+          platform,
+          platformId,
+          type: 'link',
+          userId,
+          fromAccountId,
+          toAccountId,
+          secretHash
+        });
+        log.info('awaiting confirmation', {
+          linkId,
+          fromAccountId,
+          toAccountId
+        });
+        return {
+          linkId,
+          users: userIds.length,
+          keepOwn,
+          balance: Util.toXPI(balance)
+        };
+      /** User wants secret to link account */
+      case 'undefined':
+        // Only a hash is stored, so an unexpired secret can't be shown again
+        const expires = await this.prisma.getUserSecretExpiry(userId);
+        if (expires && expires.getTime() > Date.now()) {
+          const minutes = Math.ceil((expires.getTime() - Date.now()) / 60000);
+          return `your secret code is valid for ${minutes} more minute(s); ` +
+            `use "link reset" for a new one`;
+        }
+        return { secret: await this._newLinkSecret(userId) };
+    }
+  };
+  /** Replace the link secret of the user, revoking the previous one */
+  processLinkResetCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<{
+    secret: string
+  } | string> => {
+    const log = this._commandReceived(platform, platformId, 'link_reset');
+    const { accountId, userId } = await this._getIds(platform, platformId);
+    if (await this.isAccountFrozen(accountId)) {
+      log.warn('account is frozen');
+      return ACCOUNT_FROZEN;
+    }
+    const secret = await this._newLinkSecret(userId);
+    log.info('link secret reset');
+    return { secret };
+  };
+  /**
+   * Preview moving the user out of its linked account into a new account  
+   * The user keeps the UTXOs and ledger balance of its own `WalletKey`; the
+   * unlink waits for `processLinkConfirm`
+   */
+  processUnlinkCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<UnlinkPreview | string> => {
+    const log = this._commandReceived(platform, platformId, 'unlink');
+    const { accountId, userId } = await this._getIds(platform, platformId);
+    // Unlinking a frozen account would leave the user with an unfrozen one
+    if (await this.isAccountFrozen(accountId)) {
+      log.warn('account is frozen');
+      return ACCOUNT_FROZEN;
+    }
+    const userIds = await this.prisma.getAccountUserIds(accountId);
+    if (userIds.length < 2) {
+      return 'your account is not linked to another platform account';
+    }
+    const balance = await this._getUserBalance(userId);
+    const remaining = await this._getAccountBalance(accountId) - balance;
+    const linkId = this._addPendingLink({
+      platform,
+      platformId,
+      type: 'unlink',
+      userId,
+      fromAccountId: accountId,
+      toAccountId: Util.newUUID()
+    });
+    log.info('awaiting confirmation', { linkId });
+    return {
+      linkId,
+      balance: Util.toXPI(balance),
+      remaining: Util.toXPI(remaining)
+    };
+  };
+  /**
+   * Carry out the pending link or unlink of `linkId`  
+   * Confirms the user's only pending link or unlink if `linkId` is omitted  
+   * Recorded in the audit log
+   */
+  processLinkConfirm = async (
+    platform: PlatformName,
+    platformId: string,
+    linkId?: string,
+  ): Promise<{
+    type: PendingLink['type']
+  } | string> => {
+    const log = this._commandReceived(platform, platformId, 'link_confirm', {
+      linkId
+    });
+    const pending = this._takePendingLink(platform, platformId, linkId);
+    if (!pending) {
+      return `link not found or expired`;
+    }
+    const { type, userId, fromAccountId, toAccountId, secretHash } = pending;
+    // Lock in a fixed order so that concurrent links cannot deadlock
+    const accountIds = [ fromAccountId, toAccountId ].sort();
+    const releases = [
+      await this.wallet.lockAccount(accountIds[0]),
+      await this.wallet.lockAccount(accountIds[1])
+    ];
+    try {
+      // Either account may have been frozen, linked or unlinked since the
+      // preview
+      const userIds = await this.prisma.getAccountUserIds(fromAccountId);
+      const changed = type == 'link'
+        ? userIds.length < 1 ||
+          (await this.prisma.getAccountUserIds(toAccountId)).length < 1
+        : userIds.length < 2 || !userIds.includes(userId);
+      if (changed) {
+        log.warn('accounts changed since the preview');
+        return `your accounts have changed since the preview; please try again`;
+      }
+      for (const accountId of accountIds) {
+        if (type == 'link' || accountId == fromAccountId) {
+          if (await this.isAccountFrozen(accountId)) {
+            log.warn('account is frozen', { accountId });
+            return ACCOUNT_FROZEN;
+          }
+        }
+      }
+      // The secret may have expired or been reset since the preview
+      if (secretHash && !(await this.prisma.useUserSecret(secretHash))) {
+        log.warn('link secret expired or used');
+        return 'the secret code has expired or was already used';
+      }
+      // Pending withdrawals may spend UTXOs of users that change accounts
+      for (const [ id, { accountId } ] of Object.entries(
+        this.pendingWithdrawals
+      )) {
+        if (accountIds.includes(accountId)) {
+          this._discardPendingWithdrawal(id);
+        }
+      }
+      const movedUserIds = type == 'link' ? userIds : [ userId ];
+      if (type == 'link') {
+        await this.prisma.mergeAccounts(fromAccountId, toAccountId);
+      } else {
+        await this.prisma.unlinkUser(userId, toAccountId);
+      }
+      for (const movedUserId of movedUserIds) {
+        this.wallet.updateKey(movedUserId, fromAccountId, toAccountId);
+      }
+      await this.prisma.saveAuditLog({
+        action: type == 'link' ? 'AccountsLinked' : 'AccountUnlinked',
+        userId,
+        data: {
+          fromAccountId,
+          toAccountId,
+          userIds: movedUserIds,
+          by: `${platform}:${platformId}`
+        }
+      });
+      log.info(type == 'link' ? 'linked' : 'unlinked', {
+        fromAccountId,
+        toAccountId
+      });
+      return { type };
+    } finally {
+      releases.forEach(release => release());
+    }
+  };
+  /**
+   * Discard the pending link or unlink of `linkId`  
+   * Cancels the user's only pending link or unlink if `linkId` is omitted
+   */
+  processLinkCancel = async (
+    platform: PlatformName,
+    platformId: string,
+    linkId?: string,
+  ): Promise<{
+    type: PendingLink['type']
+  } | string> => {
+    this._commandReceived(platform, platformId, 'link_cancel', { linkId });
+    const pending = this._takePendingLink(platform, platformId, linkId);
+    if (!pending) {
+      return `link not found or expired`;
+    }
+    return { type: pending.type };
+  };
+
+  processBackupCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<{
+    mnemonic: string
+  } | string> => {
+    const log = this._commandReceived(platform, platformId, 'backup');
+    // Wallet UTXOs may be owed to other users through the ledger
+    if (config.wallet.ledger) {
+      return `backups are disabled for off-chain ledger accounts`;
+    }
+    const { accountId, userId } = await this._getIds(platform, platformId);
+    if (await this.isAccountFrozen(accountId)) {
+      log.warn('account is frozen');
+      return ACCOUNT_FROZEN;
+    }
+    const key = await this.prisma.getUserMnemonic(userId);
+    return {
+      mnemonic: WalletManager.decryptMnemonic(key.mnemonic, key.dataKey)
+    };
+  };
+  /** Id of the newest processed item of a polled feed, e.g. Twitter DMs */
+  getPollCursor = async (
+    name: string
+  ) => await this.prisma.getPollCursor(name);
+  /** Save the cursor of a polled feed so that polling resumes from it */
+  savePollCursor = async (
+    name: string,
+    value: string
+  ) => await this.prisma.savePollCursor(name, value);
+  
+  /** Admin: compare the UTXOs of all wallets with the off-chain ledger */
+  processAdminTotalsCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ) => {
+    this._commandReceived(platform, platformId, 'admin_totals');
+    const utxos = this.wallet.getUtxos()
+      .reduce((sats, utxo) => sats + Number(utxo.value), 0);
+    const balances = Object.values(await this.prisma.getLedgerBalances());
+    const credit = balances
+      .filter(sats => sats > 0)
+      .reduce((total, sats) => total + sats, 0);
+    const debt = balances
+      .filter(sats => sats < 0)
+      .reduce((total, sats) => total - sats, 0);
+    return {
+      utxos: Util.toXPI(utxos),
+      /** Owed to users by the ledger */
+      ledgerCredit: Util.toXPI(credit),
+      /** Owed to the ledger by users */
+      ledgerDebt: Util.toXPI(debt),
+      /** Sum of all ledger entries; should always be 0 */
+      ledgerTotal: Util.toXPI(credit - debt)
+    };
+  };
+  /**
+   * Admin: compare the live UTXOs with the expected balance of every account  
+   * See `Reserves`
+   */
+  processAdminReservesCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<ReservesReport> => {
+    const log = this._commandReceived(platform, platformId, 'admin_reserves');
+    const report = await this.reserves.getReport();
+    if (!report.solvent || report.flagged > 0) {
+      log.warn('reserves discrepancy', {
+        solvent: report.solvent,
+        difference: report.difference,
+        flagged: report.flagged
+      });
+    }
+    return report;
+  };
+  /** Admin: get the account details of any user, without creating one */
+  processAdminLookupCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    targetPlatform: string,
+    targetId: string,
+  ): Promise<AccountInfo | string> => {
+    this._commandReceived(platform, platformId, 'admin_lookup', {
+      target: `${targetPlatform}:${targetId}`
+    });
+    const account = await this.getAccountInfo(targetPlatform, targetId);
+    return account ?? `user not found: ${targetPlatform}:${targetId}`;
+  };
+  /**
+   * Get the account details of any user, without creating one  
+   * `undefined` if the user does not exist
+   */
+  getAccountInfo = async (
+    platform: string,
+    platformId: string,
+  ): Promise<AccountInfo | undefined> => {
+    const user = await this._getPlatformUser(platform, platformId);
+    if (!user) {
+      return undefined;
+    }
+    const users: string[] = [];
+    for (const accountUser of user.account.users) {
+      for (const name of PLATFORMS) {
+        if (accountUser[name]) {
+          users.push(`${name}:${accountUser[name].id}`);
+        }
+      }
+    }
+    const balance = await this._getAccountBalance(user.accountId);
+    return {
+      accountId: user.accountId,
+      userId: user.id,
+      frozen: user.account.frozen,
+      users,
+      addresses: this.wallet.getXAddresses(user.accountId),
+      balance: Util.toXPI(balance)
+    };
+  };
+  /** Admin: freeze or unfreeze the account of any user */
+  processAdminFreezeCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    targetPlatform: string,
+    targetId: string,
+    frozen: boolean,
+  ): Promise<{
+    accountId: string
+  } | string> => {
+    this._commandReceived(platform, platformId, 'admin_freeze', {
+      target: `${targetPlatform}:${targetId}`,
+      frozen
+    });
+    const user = await this._getPlatformUser(targetPlatform, targetId);
+    if (!user) {
+      return `user not found: ${targetPlatform}:${targetId}`;
+    }
+    await this.setAccountFrozen(
+      user.accountId,
+      frozen,
+      `${platform}:${platformId}`
+    );
+    return { accountId: user.accountId };
+  };
+  /** Admin: reload the UTXOs of any user from the Chronik API */
+  processAdminResyncCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    targetPlatform: string,
+    targetId: string,
+  ): Promise<{
+    userId: string,
+    added: number,
+    removed: number
+  } | string> => {
+    const log = this._commandReceived(platform, platformId, 'admin_resync', {
+      target: `${targetPlatform}:${targetId}`
+    });
+    const user = await this._getPlatformUser(targetPlatform, targetId);
+    if (!user) {
+      return `user not found: ${targetPlatform}:${targetId}`;
+    }
+    const { added, removed } = await this.wallet.resyncUtxos(user.id);
+    log.info('UTXOs resynced', { userId: user.id, added, removed });
+    return { userId: user.id, added, removed };
   };
-  /** Informational and error logging */
-  log = (
-    module: string,
-    message: string
-  ) => console.log(`${module.toUpperCase()}: ${message}`);
-  /* Called by any bot module that runs into unrecoverable error */
-  shutdown = () => this.emit('Shutdown');
-  /** Make sure we process deposits we received while offline */
-  init = async () => {
-    this.log(MAIN, `reconciling deposits with UTXO set`);
+  /** Admin: get the most recent failed tx broadcasts */
+  processAdminFailuresCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<BroadcastFailure[]> => {
+    this._commandReceived(platform, platformId, 'admin_failures');
+    const logs = await this.prisma.getAuditLogs(
+      'BroadcastFailed',
+      ADMIN_FAILURES_LIMIT
+    );
+    return logs.map(log => {
+      return {
+        timestamp: log.timestamp,
+        userId: log.userId,
+        command: log.data.command,
+        txid: log.data.txid,
+        error: log.data.error
+      };
+    });
+  };
+  /** Admin: get the withdrawal requests awaiting approval, oldest first */
+  processAdminPendingCommand = async (
+    platform: PlatformName,
+    platformId: string,
+  ): Promise<WithdrawalRequest[]> => {
+    this._commandReceived(platform, platformId, 'admin_pending');
+    const requests = await this.prisma.getWithdrawalRequests('pending');
+    return requests.map(request => {
+      return {
+        requestId: request.id,
+        user: `${request.platform}:${request.platformId}`,
+        amount: Util.toXPI(request.value),
+        outAddress: request.outAddress,
+        timestamp: request.timestamp
+      };
+    });
+  };
+  /**
+   * Admin: approve the withdrawal request `requestId` and broadcast it  
+   * The request stays pending if the withdrawal cannot be sent
+   */
+  processAdminApproveCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    requestId: string,
+  ): Promise<{
+    txid: string,
+    amount: string
+  } | string> => {
+    const msg = `${platformId}: admin: approve: ${requestId}`;
+    const log = this._commandReceived(platform, platformId, 'admin_approve', {
+      requestId
+    });
+    const request = await this.prisma.getWithdrawalRequest(requestId);
+    const reviewedBy = `${platform}:${platformId}`;
+    // Claim the request so that it is only approved once
+    if (
+      !request ||
+      !await this.prisma.updateWithdrawalRequest(requestId, 'pending', {
+        status: 'approved',
+        reviewedBy,
+        reviewedAt: new Date()
+      })
+    ) {
+      return `pending withdrawal not found: ${requestId}`;
+    }
+    const { accountId } = request.user;
+    const sats = Number(request.value);
+    const serviceFee = this._getServiceFee(sats);
+    // A withdrawal of "all" pays the service fee out of the amount
+    const total = request.subtractFee ? sats : sats + serviceFee;
+    let result: { txid: string, amount: string } | string;
     try {
-      const utxos = this.wallet.getUtxos();
-      const deposits = await this.prisma.getDeposits();
-      const newDeposits = utxos.filter(u => {
-        return deposits.findIndex(d => u.txid == d.txid) < 0;
-      });
-      for (const deposit of newDeposits) {
-        await this._saveDeposit(deposit);
+      // Held until the withdrawal is saved, so that linked users' withdrawals
+      // are counted against the daily limit
+      const release = await this.wallet.lockAccount(accountId);
+      try {
+        const balance = await this._getSpendableBalance(accountId);
+        // The account may have changed since the request, e.g. by a link
+        const limited = await this._checkWithdrawLimits(
+          accountId,
+          sats,
+          requestId
+        );
+        const { outAddress } = request;
+        if (await this.isAccountFrozen(accountId)) {
+          result = `account is frozen`;
+        } else if (this.wallet.isAccountAddress(accountId, outAddress)) {
+          result = `withdrawal address now belongs to the account`;
+        } else if (limited) {
+          result = limited;
+        } else if (total > balance) {
+          result = `insufficient balance: ${total} > ${balance}`;
+        } else {
+          const tx = await this.wallet.genTx({
+            fromAccountId: accountId,
+            outAddress,
+            sats: request.subtractFee ? sats - serviceFee : sats,
+            settleUserIds: config.wallet.ledger
+              ? await this._getLedgerDebtors(accountId)
+              : [],
+            subtractFee: request.subtractFee,
+            serviceFee: {
+              address: config.wallet.withdrawFee.treasury,
+              sats: serviceFee
+            }
+          });
+          result = await this._sendWithdrawal(
+            log,
+            accountId,
+            request.userId,
+            serviceFee,
+            tx
+          );
+        }
+      } finally {
+        release();
       }
     } catch (e: any) {
-      throw new Error(`init: ${e.message}`);
+      await this.prisma.updateWithdrawalRequest(requestId, 'approved', {
+        status: 'pending'
+      });
+      throw new Error(`${msg}: ${e.message}`);
     }
+    if (typeof result == 'string') {
+      await this.prisma.updateWithdrawalRequest(requestId, 'approved', {
+        status: 'pending'
+      });
+      log.warn('approve failed', { reason: result });
+      return result;
+    }
+    await this.prisma.updateWithdrawalRequest(requestId, 'approved', {
+      status: 'approved',
+      txid: result.txid
+    });
+    await this.prisma.saveAuditLog({
+      action: 'WithdrawalApproved',
+      userId: request.userId,
+      data: { requestId, txid: result.txid, by: reviewedBy }
+    });
+    this.emit('WithdrawalApproved', {
+      platform: request.platform as PlatformName,
+      platformId: request.platformId,
+      txid: result.txid,
+      amount: result.amount
+    });
+    this.emit('WithdrawalSent', {
+      platform: request.platform as PlatformName,
+      platformId: request.platformId,
+      txid: result.txid,
+      amount: result.amount,
+      serviceFee: Util.toXPI(serviceFee)
+    });
+    return result;
   };
-  /**  */
-  walletUtxoAddedToMempool = async (
-    utxo: AccountUtxo
+  /** Admin: reject the withdrawal request `requestId` */
+  processAdminRejectCommand = async (
+    platform: PlatformName,
+    platformId: string,
+    requestId: string,
+    reason?: string,
+  ): Promise<{
+    requestId: string
+  } | string> => {
+    this._commandReceived(platform, platformId, 'admin_reject', {
+      requestId,
+      reason
+    });
+    const request = await this.prisma.getWithdrawalRequest(requestId);
+    const reviewedBy = `${platform}:${platformId}`;
+    if (
+      !request ||
+      !await this.prisma.updateWithdrawalRequest(requestId, 'pending', {
+        status: 'rejected',
+        reviewedBy,
+        reviewedAt: new Date(),
+        reason
+      })
+    ) {
+      return `pending withdrawal not found: ${requestId}`;
+    }
+    await this.prisma.saveAuditLog({
+      action: 'WithdrawalRejected',
+      userId: request.userId,
+      data: { requestId, reason, by: reviewedBy }
+    });
+    this.emit('WithdrawalRejected', {
+      platform: request.platform as PlatformName,
+      platformId: request.platformId,
+      amount: Util.toXPI(request.value),
+      reason: reason || 'no reason given'
+    });
+    return { requestId };
+  };
+  /**
+   * Freeze or unfreeze `accountId`; `by` identifies who did it  
+   * Frozen accounts cannot give, withdraw, link or back up their wallets  
+   * Recorded in the audit log
+   */
+  setAccountFrozen = async (
+    accountId: string,
+    frozen: boolean,
+    by: string,
+  ) => {
+    await this.prisma.setAccountFrozen(accountId, frozen);
+    if (frozen) {
+      for (const [ id, pending ] of Object.entries(this.pendingWithdrawals)) {
+        if (pending.accountId == accountId) {
+          this._discardPendingWithdrawal(id);
+        }
+      }
+    }
+    await this.prisma.saveAuditLog({
+      action: frozen ? 'AccountFrozen' : 'AccountUnfrozen',
+      data: { accountId, by }
+    });
+    log.info(`account ${frozen ? 'frozen' : 'unfrozen'}`, { accountId, by });
+  };
+  /** Whether `accountId` is frozen by an operator */
+  isAccountFrozen = async (
+    accountId: string
+  ) => await this.prisma.isAccountFrozen(accountId);
+
+  /** Get the balance of `accountId`, including off-chain ledger entries */
+  private _getAccountBalance = async (
+    accountId: string
+  ) => {
+    const sats = await this.wallet.getAccountBalance(accountId);
+    return config.wallet.ledger
+      ? sats + await this.prisma.getAccountLedgerBalance(accountId)
+      : sats;
+  };
+  /** Get the balance of `userId` alone, including off-chain ledger entries */
+  private _getUserBalance = async (
+    userId: string
+  ) => {
+    const sats = await this.wallet.getUserBalance(userId);
+    return config.wallet.ledger
+      ? sats + ((await this.prisma.getLedgerBalances())[userId] ?? 0)
+      : sats;
+  };
+  /** Get the spendable balance of `accountId`, including off-chain ledger */
+  private _getSpendableBalance = async (
+    accountId: string
+  ) => {
+    const sats = await this.wallet.getSpendableBalance(accountId);
+    return config.wallet.ledger
+      ? sats + await this.prisma.getAccountLedgerBalance(accountId)
+      : sats;
+  };
+  /**
+   * Get `userId`s of other accounts with a negative ledger balance, most
+   * indebted first; their UTXOs settle off-chain credit on withdrawal
+   */
+  private _getLedgerDebtors = async (
+    accountId: string
+  ) => {
+    const balances = await this.prisma.getLedgerBalances();
+    const accountUserIds = this.wallet.getAccountUserIds(accountId);
+    return Object.keys(balances)
+      .filter(userId => balances[userId] < 0)
+      .filter(userId => !accountUserIds.includes(userId))
+      .sort((a, b) => balances[a] - balances[b]);
+  };
+  /**
+   * Record `settle` ledger entries for a withdrawal that spent UTXOs of
+   * other accounts: each such user is credited what their `WalletKey` spent,
+   * and the withdrawing user is debited the total
+   */
+  private _saveSettlement = async (
+    tx: Transaction,
+    accountId: string,
+    userId: string
   ) => {
+    const accountUserIds = this.wallet.getAccountUserIds(accountId);
+    const spends = this.wallet.getTxUserSpends(tx);
+    const timestamp = new Date();
+    const entries = Object.entries(spends)
+      .filter(([ spendUserId, sats ]) => {
+        return !accountUserIds.includes(spendUserId) && sats != 0;
+      })
+      .map(([ spendUserId, sats ]) => {
+        return {
+          userId: spendUserId,
+          value: sats.toString(),
+          type: 'settle' as const,
+          reference: tx.txid,
+          timestamp
+        };
+      });
+    if (entries.length < 1) {
+      return;
+    }
+    const settled = entries.reduce((sats, entry) => sats + Number(entry.value), 0);
+    await this.prisma.saveLedgerEntries([
+      ...entries,
+      {
+        userId,
+        value: (-settled).toString(),
+        type: 'settle',
+        reference: tx.txid,
+        timestamp
+      }
+    ]);
+    log.info('ledger credit settled', { txid: tx.txid, sats: settled });
+  };
+  /**
+   * Run `command` only once per `idempotencyKey`, e.g. for redelivered
+   * platform updates  
+   * A repeated key returns the saved result of the first run; the key is
+   * released if `command` throws so that it may be retried
+   */
+  private _runIdempotent = async <T>(
+    idempotencyKey: string | undefined,
+    command: () => Promise<T>
+  ): Promise<T> => {
+    if (!idempotencyKey) {
+      return await command();
+    }
+    if (!await this.prisma.claimIdempotencyKey(idempotencyKey)) {
+      const result = await this.prisma.getIdempotencyKeyResult(idempotencyKey);
+      if (result === undefined) {
+        throw new Error(`${idempotencyKey}: command is already being processed`);
+      }
+      log.info('repeated command: returning result', { idempotencyKey });
+      return <T>result;
+    }
+    let result: T;
     try {
-      await this._saveDeposit(utxo);
+      result = await command();
     } catch (e: any) {
-      this.log(MAIN, `walletsUtxoAddedToMempool: FATAL: ${e.message}`);
-      this.shutdown();
+      await this.prisma.deleteIdempotencyKey(idempotencyKey);
+      throw e;
     }
+    await this.prisma.saveIdempotencyKeyResult(idempotencyKey, result);
+    return result;
   };
-
-  processBalanceCommand = async (
+  /** Delete the idempotency keys older than the retention period */
+  private _deleteIdempotencyKeys = async () => {
+    try {
+      await this.prisma.deleteIdempotencyKeys(
+        new Date(Date.now() - IDEMPOTENCY_KEY_RETENTION)
+      );
+    } catch (e: any) {
+      log.error('_deleteIdempotencyKeys failed', { error: e.message });
+    }
+  };
+  /**
+   * Remove and return the pending withdrawal of the user  
+   * Any withdrawal of another user is left untouched
+   */
+  private _takePendingWithdrawal = (
     platform: PlatformName,
     platformId: string,
-  ): Promise<string> => {
-    const msg = `${platformId}: balance`;
-    this.log(platform, `${msg}: command received`);
-    const { accountId } = await this._getIds(platform, platformId);
-    const balance = await this.wallet.getAccountBalance(accountId);
-    return Util.toXPI(balance);
+    withdrawalId?: string,
+  ) => {
+    const id = withdrawalId ?? Object.keys(this.pendingWithdrawals).find(
+      key => this.pendingWithdrawals[key].platform == platform &&
+        this.pendingWithdrawals[key].platformId == platformId
+    );
+    const pending = this.pendingWithdrawals[id];
+    if (
+      !pending ||
+      pending.platform != platform ||
+      pending.platformId != platformId
+    ) {
+      return undefined;
+    }
+    clearTimeout(pending.timeout);
+    delete this.pendingWithdrawals[id];
+    return pending;
   };
-  
-  processDepositCommand = async (
+  /** Discard the pending withdrawals of the user */
+  private _clearPendingWithdrawals = (
     platform: PlatformName,
     platformId: string,
   ) => {
-    const msg = `${platformId}: deposit`;
-    this.log(platform, `${msg}: command received`);
-    const { userId } = await this._getIds(platform, platformId);
-    return this.wallet.getXAddress(userId);
+    for (const [ id, pending ] of Object.entries(this.pendingWithdrawals)) {
+      if (pending.platform == platform && pending.platformId == platformId) {
+        this._discardPendingWithdrawal(id);
+      }
+    }
   };
-
-  processGiveCommand = async (
-    platform: PlatformName,
-    fromId: string,
-    fromUsername: string,
-    toId: string,
-    toUsername: string,
-    value: string,
+  /** Discard the pending withdrawal and release the UTXOs of its tx */
+  private _discardPendingWithdrawal = (
+    withdrawalId: string
   ) => {
-    const sats = Util.toSats(value);
-    const msg =
-      `${fromId}: give: ${fromUsername} -> ${toId} (${toUsername}): ${sats} sats`;
-    this.log(platform, `${msg}: command received`);
-    if (sats < MIN_OUTPUT_AMOUNT) {
-      throw new Error(`${msg}: ERROR: minimum required: ${MIN_OUTPUT_AMOUNT}`);
-    }
-    // Create account for fromId if not exist
-    const {
-      accountId: fromAccountId,
-      userId: fromUserId
-    } = await this._getIds(platform, fromId);
-    const balance = await this.wallet.getAccountBalance(fromAccountId);
-    if (sats > balance) {
-      throw new Error(`${msg}: ERROR: insufficient balance: ${balance}`);
-    }
-    // Create account for toId if not exist
-    const {
-      userId: toUserId
-    } = await this._getIds(platform, toId);
-    // Give successful; broadcast tx and save to db
-    const tx = await this.wallet.genTx({
-      fromAccountId,
-      toUserId,
-      sats
-    });
-    // save give to database before broadcasting
-    try {
-      await this.prisma.saveGive({
-        txid: tx.txid,
-        platform: platform.toLowerCase(),
-        timestamp: new Date(),
-        fromId: fromUserId,
-        toId: toUserId,
-        value: sats.toString()
-      });
-    } catch (e: any) {
-      throw new Error(`${msg}: ERROR: failed to save give: ${e.message}`);
+    const pending = this.pendingWithdrawals[withdrawalId];
+    if (!pending) {
+      return;
     }
-    this.log(DB, `${msg}: saved to db: ${tx.txid}`);
-    // try to broadcast the give tx
-    try {
-      const txid = await this.wallet.broadcastTx(tx);
-      this.log(WALLET, `${msg}: accepted by network: ${txid}`);
-    } catch (e: any) {
-      await this.prisma.deleteGive(tx.txid);
-      throw new Error(`${msg}: ERROR: broadcast failed: ${e.message}`);
+    clearTimeout(pending.timeout);
+    delete this.pendingWithdrawals[withdrawalId];
+    this.wallet.releaseTx(pending.tx);
+  };
+  /**
+   * Issue a new link secret to `userId`, valid for `LINK_SECRET_TTL`  
+   * Only its hash is stored
+   */
+  private _newLinkSecret = async (
+    userId: string
+  ) => {
+    const secret = Util.newUUID();
+    await this.prisma.setUserSecret(
+      userId,
+      hashToken(secret),
+      new Date(Date.now() + LINK_SECRET_TTL)
+    );
+    return secret;
+  };
+  /**
+   * Hold a link or unlink until the user confirms it  
+   * Only one pending link per user; return its `linkId`
+   */
+  private _addPendingLink = (
+    link: Omit<PendingLink, 'timeout'>
+  ) => {
+    for (const [ id, pending ] of Object.entries(this.pendingLinks)) {
+      if (
+        pending.platform == link.platform &&
+        pending.platformId == link.platformId
+      ) {
+        this._takePendingLink(link.platform, link.platformId, id);
+      }
     }
-    // return broadcasted tx data
-    return {
-      txid: tx.txid,
-      amount: Util.toXPI(tx.outputs[0].satoshis) 
+    const linkId = Util.newUUID();
+    this.pendingLinks[linkId] = {
+      ...link,
+      timeout: setTimeout(
+        () => this._takePendingLink(link.platform, link.platformId, linkId),
+        LINK_CONFIRM_TIMEOUT
+      )
     };
+    return linkId;
   };
-
-  processWithdrawCommand = async (
+  /**
+   * Remove and return the pending link or unlink of the user  
+   * Any link of another user is left untouched
+   */
+  private _takePendingLink = (
     platform: PlatformName,
     platformId: string,
-    outAmount: string,
-    outAddress: string,
-  ): Promise<{
-    txid: string,
-    amount: string
-  } | string> => {
-    const msg = `${platformId}: withdraw: ${outAmount} -> ${outAddress}`;
-    this.log(platform, `${msg}: command received`);
-    const sats = Util.toSats(outAmount);
-    if (!WalletManager.isValidAddress(outAddress)) {
-      return `invalid address: \`${outAddress}\``;
-    } else if (sats < MIN_OUTPUT_AMOUNT) {
-      return `withdraw minimum is ${Util.toXPI(MIN_OUTPUT_AMOUNT)} XPI`;
-    }
-    const {
-      accountId,
-      userId
-    } = await this._getIds(platform, platformId);
-    // Get the user's XAddress and check against outAddress
-    const addresses = this.wallet.getXAddresses(accountId);
-    if (addresses.includes(outAddress)) {
-      return `you must withdraw to an external wallet`;
-    }
-    // Get the user's balance and check against outAmount
-    const balance = await this.wallet.getAccountBalance(accountId);
-    if (sats > balance) {
-      return `insufficient balance: ${sats} > ${balance}`;
-    }
-    // Generate withdrawal tx
-    const tx = await this.wallet.genTx({
-      fromAccountId: accountId,
-      outAddress,
-      sats
-    });
+    linkId?: string,
+  ) => {
+    const id = linkId ?? Object.keys(this.pendingLinks).find(
+      key => this.pendingLinks[key].platform == platform &&
+        this.pendingLinks[key].platformId == platformId
+    );
+    const pending = this.pendingLinks[id];
+    if (
+      !pending ||
+      pending.platform != platform ||
+      pending.platformId != platformId
+    ) {
+      return undefined;
+    }
+    clearTimeout(pending.timeout);
+    delete this.pendingLinks[id];
+    return pending;
+  };
+  /**
+   * Check a withdrawal of `sats` against the per-tx and daily limits  
+   * Return the reason if it is above either limit; `requestId` is the
+   * withdrawal request being approved, which is not counted twice
+   */
+  private _checkWithdrawLimits = async (
+    accountId: string,
+    sats: number,
+    requestId?: string,
+  ) => {
+    const { withdrawPerTx, withdrawPerDay } = config.limits;
+    const perTxSats = Util.toSats(withdrawPerTx);
+    if (perTxSats > 0 && sats > perTxSats) {
+      return `withdraw maximum is ${withdrawPerTx} XPI`;
+    }
+    const perDaySats = Util.toSats(withdrawPerDay);
+    if (perDaySats > 0) {
+      const withdrawn = await this.prisma.getAccountWithdrawalTotal(
+        accountId,
+        new Date(Date.now() - WITHDRAW_LIMIT_PERIOD),
+        requestId
+      );
+      if (withdrawn + sats > perDaySats) {
+        const remaining = Math.max(perDaySats - withdrawn, 0);
+        return `daily withdraw limit is ${withdrawPerDay} XPI; ` +
+          `${Util.toXPI(remaining)} XPI remaining`;
+      }
+    }
+  };
+  /** Save and broadcast the withdrawal `tx` */
+  private _sendWithdrawal = async (
+    log: Logger,
+    accountId: string,
+    userId: string,
+    serviceFee: number,
+    tx: Transaction,
+  ) => {
+    // Get the actual number of sats in the tx output to save and reply to user
+    const outSats = tx.outputs[0].satoshis;
     // Save the withdrawal to the database before broadcasting
     try {
       await this.prisma.saveWithdrawal({
         txid: tx.txid,
-        value: sats.toString(),
+        value: outSats.toString(),
+        serviceFee: serviceFee.toString(),
+        fee: (tx.inputAmount - tx.outputAmount).toString(),
         timestamp: new Date(),
         userId
       });
+      if (config.wallet.ledger) {
+        await this._saveSettlement(tx, accountId, userId);
+      }
     } catch (e: any) {
+      this.wallet.releaseTx(tx);
+      await this.prisma.deleteWithdrawal(tx.txid);
       throw new Error(`failed to save withdrawal: ${e.message}`);
     }
-    this.log(DB, `${msg}: saved: ${tx.txid}`);
+    log.info('saved to db', { txid: tx.txid });
     // try to broadcast the withdrawal tx
     try {
       // Broadcast the withdrawal to network
       const txid = await this.wallet.broadcastTx(tx);
-      this.log(WALLET, `${msg}: accepted by network: ${txid}`);
-      // Get the actual number of sats in the tx output to reply to user
-      const outSats = tx.outputs[0].satoshis;
+      log.info('accepted by network', { txid });
       return {
         txid: tx.txid,
         amount: Util.toXPI(outSats)
       };
     } catch (e: any) {
-      // If tx broadcast fails, delete the withdrawal database entry
+      // If tx broadcast fails, delete the withdrawal database entries
       await this.prisma.deleteWithdrawal(tx.txid);
+      await this.prisma.deleteLedgerEntries(tx.txid);
+      await this._saveBroadcastFailure(userId, 'withdraw', tx, e.message);
       throw new Error(`withdrawal broadcast failed: ${e.message}`);
     }
   };
-
-  processLinkCommand = async (
+  /**
+   * Service fee charged on a withdrawal of `sats`, in satoshis  
+   * Waived if no treasury address is set, or if it is below the dust limit
+   * since the fee output would not be relayed
+   */
+  private _getServiceFee = (
+    sats: number
+  ) => {
+    const { flat, percent, treasury } = config.wallet.withdrawFee;
+    if (!treasury) {
+      return 0;
+    }
+    const fee = Util.toSats(flat) + Math.floor(sats * percent / 100);
+    return fee < DUST_LIMIT ? 0 : fee;
+  };
+  /** Minimum give of `platform`, in satoshis */
+  private _getMinGive = (
+    platform: PlatformName
+  ) => Math.max(
+    MIN_OUTPUT_AMOUNT,
+    Util.toSats(config.limits.minGive[platform] ?? 0)
+  );
+  /**
+   * Check a give against the limits of `accountId` and `chatId`  
+   * Return the cooldown message if either limit is reached; the give is
+   * only counted by `_recordGive` once it succeeds
+   */
+  private _checkGiveLimit = (
+    platform: PlatformName,
+    accountId: string,
+    chatId: string | undefined,
+  ) => {
+    const retryAfter = Math.max(
+      this.userGiveLimiter.retryAfter(accountId),
+      chatId ? this.chatGiveLimiter.retryAfter(`${platform}:${chatId}`) : 0
+    );
+    if (retryAfter > 0) {
+      return `too many gives; please wait ${Math.ceil(retryAfter / 1000)} ` +
+        `seconds before giving again`;
+    }
+  };
+  /** Count a successful give against the account and chat limits */
+  private _recordGive = (
     platform: PlatformName,
+    accountId: string,
+    chatId: string | undefined,
+  ) => {
+    this.userGiveLimiter.hit(accountId);
+    if (chatId) {
+      this.chatGiveLimiter.hit(`${platform}:${chatId}`);
+    }
+  };
+  /** Get a user without creating it; `undefined` if it does not exist */
+  private _getPlatformUser = async (
+    platform: string,
     platformId: string,
-    secret: string | undefined,
-  ): Promise<{
-    secret: string
-  } | string> => {
-    const msg = `${platformId}: link: ${secret ? '<redacted>' : 'initiate'}`;
-    this.log(platform, `${msg}: command received`);
-    const { accountId, userId } = await this._getIds(platform, platformId);
-    switch (typeof secret) {
-      /** User provided secret to link account */
-      case 'string':
-        // Get the accountId associated with the user with the secret
-        const linkAccountId = await this.prisma.getAccountIdFromSecret(secret);
-        // sanity checks
-        if (!linkAccountId) {
-          return 'invalid secret provided';
-        } else if (linkAccountId == accountId) {
-          return 'own secret provided or already linked';
-        }
-        // try to update the user's accountId
-        await this.prisma.updateUserAccountId(userId, linkAccountId);
-        this.log(
-          platform,
-          `${msg}: successfully linked to ${linkAccountId} accountId`
-        );
-        // update walletkey with new accountId
-        this.wallet.updateKey(userId, accountId, linkAccountId);
-        return { secret: undefined };
-      /** User wants secret to link account */
-      case 'undefined':
-        const userSecret = await this.prisma.getUserSecret(
-          platform,
-          platformId
-        );
-        // try to send secret to the platform user
-        return { secret: userSecret };
+  ) => {
+    if (!PLATFORMS.includes(<PlatformName>platform)) {
+      return undefined;
     }
+    return await this.prisma.getPlatformUser(platform, platformId);
   };
-
-  processBackupCommand = async (
+  /**
+   * Log a received command and emit `CommandReceived`, e.g. for metrics  
+   * Return a logger with the context of the command
+   */
+  private _commandReceived = (
     platform: PlatformName,
     platformId: string,
+    command: string,
+    fields?: LogFields
   ) => {
-    const msg = `${platformId}: backup`;
-    this.log(platform, `${msg}: command received`);
-    const { userId } = await this._getIds(platform, platformId);
-    const mnemonic = await this.prisma.getUserMnemonic(userId);
-    return mnemonic;
+    const commandLog = log.child({ platform, platformId, command });
+    commandLog.info('command received', fields);
+    this.emit('CommandReceived', { platform, command });
+    return commandLog;
+  };
+  /** Record a failed broadcast for the admin `failures` command */
+  private _saveBroadcastFailure = async (
+    userId: string,
+    command: string,
+    tx: Transaction,
+    error: string,
+  ) => {
+    this.emit('BroadcastFailed', { command, txid: tx.txid });
+    try {
+      await this.prisma.saveAuditLog({
+        action: 'BroadcastFailed',
+        userId,
+        data: { command, txid: tx.txid, error }
+      });
+    } catch (e: any) {
+      log.error('_saveBroadcastFailure failed', {
+        txid: tx.txid,
+        error: e.message
+      });
+    }
   };
-  
   /**
    * Checks if `platformId` of `platform` is valid.  
    * If not, creates it; if so, gathers data from the database  
@@ -303,22 +1988,27 @@ export class Handler extends EventEmitter {
     try {
       const accountId = Util.newUUID();
       const userId = Util.newUUID();
-      const secret = Util.newUUID();
       const mnemonic = WalletManager.newMnemonic();
       const hdPrivKey = WalletManager.newHDPrivateKey(mnemonic);
       const hdPubKey = hdPrivKey.hdPublicKey;
       await this.prisma.saveAccount({
         accountId,
         userId,
-        secret,
         platform,
         platformId,
-        mnemonic: mnemonic.toString(),
-        hdPrivKey: hdPrivKey.toString(),
+        ...WalletManager.encryptWalletKey(
+          mnemonic.toString(),
+          hdPrivKey.toString()
+        ),
         hdPubKey: hdPubKey.toString()
       });
       await this.wallet.loadKey({ accountId, userId, hdPrivKey });
-      this.log(DB, `new account saved: ${accountId}`);
+      log.info('new account saved', {
+        platform,
+        platformId,
+        accountId,
+        userId
+      });
       return { accountId, userId };
     } catch (e: any) {
       throw new Error(`_saveAccount: ${e.message}`);
@@ -329,28 +2019,40 @@ export class Handler extends EventEmitter {
     utxo: AccountUtxo
   ) => {
     try {
+      // Accept a withdrawal as a deposit if it pays another account; the
+      // sender's own outputs are change, wherever the fee outputs put them
+      // Fixes https://github.com/givelotus/lotus-bot/issues/48
+      const withdrawAccountId = await this.prisma.getWithdrawAccountId(
+        utxo.txid
+      );
       if (
+        // Change of our own txs is never a deposit
+        this.wallet.isChangeUtxo(utxo) ||
         await this.prisma.isGiveTx(utxo.txid) ||
-        // Accept a withdrawl as a deposit if the outIdx is not the change Idx
-        // Fixes https://github.com/givelotus/lotus-bot/issues/48
         (
-          await this.prisma.isWithdrawTx(utxo.txid) &&
-          utxo.outIdx == WalletManager.WITHDRAW_CHANGE_OUTIDX
+          withdrawAccountId &&
+          this.wallet.getAccountUserIds(withdrawAccountId).includes(
+            utxo.userId
+          )
         )
       ) {
         return;
       }
+      const { blockHeight, ...depositUtxo } = utxo;
+      const confirmed = blockHeight >= 0;
       const deposit = await this.prisma.saveDeposit({
-        ...utxo,
-        timestamp: new Date()
+        ...depositUtxo,
+        timestamp: new Date(),
+        confirmed,
+        blockHeight: confirmed ? blockHeight : undefined
       });
-      this.log(DB, `deposit saved: ${JSON.stringify(utxo)}`);
+      log.info('deposit saved', { ...utxo });
       for (const [ platformName, user ] of Object.entries(deposit.user)) {
         if (typeof user == 'string' || !user) {
           continue;
         }
         const { accountId } = deposit.user;
-        const balance = await this.wallet.getAccountBalance(accountId);
+        const balance = await this._getAccountBalance(accountId);
         return this.emit('DepositSaved', {
           platform: platformName as PlatformName,
           platformId: user.id,
@@ -363,5 +2065,105 @@ export class Handler extends EventEmitter {
       throw new Error(`_saveDeposit: ${e.message}`);
     }
   };
+  /**
+   * Delete the give or withdrawal `txid`, if we sent it, and restore the
+   * UTXOs that its inputs spent from the sender and any settled users
+   */
+  private _revertSentTx = async (
+    txid: string
+  ) => {
+    try {
+      const sent = await this.prisma.revertSentTx(txid);
+      if (!sent) {
+        return;
+      }
+      const { command, userId, accountId, value, settleUserIds } = sent;
+      await this.prisma.saveAuditLog({
+        action: 'SentTxReverted',
+        userId,
+        data: { command, txid, value: value.toString() }
+      });
+      const userIds = new Set([
+        ...this.wallet.getAccountUserIds(accountId),
+        ...settleUserIds
+      ]);
+      for (const resyncUserId of userIds) {
+        await this.wallet.resyncUtxos(resyncUserId);
+      }
+    } catch (e: any) {
+      throw new Error(`_revertSentTx: ${e.message}`);
+    }
+  };
+  /** Confirm the deposits of `txid`, if any, and emit `DepositConfirmed` */
+  private _confirmDeposit = async (
+    txid: string,
+    blockHeight: number
+  ) => {
+    try {
+      const deposits = await this.prisma.confirmDeposit(txid, blockHeight);
+      if (deposits.length < 1) {
+        return;
+      }
+      log.info('deposit confirmed', { txid, blockHeight });
+      for (const deposit of deposits) {
+        for (const [ platformName, user ] of Object.entries(deposit.user)) {
+          if (typeof user == 'string' || !user) {
+            continue;
+          }
+          const { accountId } = deposit.user;
+          const balance = await this._getAccountBalance(accountId);
+          this.emit('DepositConfirmed', {
+            platform: platformName as PlatformName,
+            platformId: user.id,
+            txid,
+            amount: Util.toXPI(deposit.value),
+            balance: Util.toXPI(balance)
+          });
+          break;
+        }
+      }
+    } catch (e: any) {
+      throw new Error(`_confirmDeposit: ${e.message}`);
+    }
+  };
+  /**
+   * Revert the deposits of `txid`, if any  
+   * Records the reversal in the audit log and emits `DepositReverted`
+   */
+  private _revertDeposit = async (
+    txid: string
+  ) => {
+    try {
+      const deposits = await this.prisma.revertDeposit(txid);
+      if (deposits.length < 1) {
+        return;
+      }
+      log.info('deposit reverted', { txid });
+      for (const deposit of deposits) {
+        await this.prisma.saveAuditLog({
+          action: 'DepositReverted',
+          userId: deposit.userId,
+          data: { txid, outIdx: deposit.outIdx, value: deposit.value }
+        });
+        for (const [ platformName, user ] of Object.entries(deposit.user)) {
+          if (typeof user == 'string' || !user) {
+            continue;
+          }
+          const { accountId } = deposit.user;
+          const balance = await this._getAccountBalance(accountId);
+          this.emit('DepositReverted', {
+            platform: platformName as PlatformName,
+            platformId: user.id,
+            txid,
+            amount: Util.toXPI(deposit.value),
+            balance: Util.toXPI(balance)
+          });
+          break;
+        }
+      }
+    } catch (e: any) {
+      throw new Error(`_revertDeposit: ${e.message}`);
+    }
+  };
 
 };
\ No newline at end of file
@@ -7,11 +7,12 @@ import config from '../config';
 import { WalletManager } from './wallet';
 import { Database } from './database';
 import { Handler } from './handler';
+import { Api } from './api';
+import { Webhooks } from './webhooks';
+import { Metrics } from './metrics';
+import logger from '../util/logger';
 
-// Constants used for logging purposes
-const WALLET = 'walletmanager';
-const DB = 'prisma';
-const MAIN = 'lotusbot';
+const log = logger.child({ module: 'lotusbot' });
 /**
  * Master class  
  * Processes all platform commands  
@@ -21,6 +22,11 @@ export default class LotusBot {
   private prisma: Database;
   private wallet: WalletManager;
   private handler: Handler;
+  /** HTTP API; only set if `API_PORT` is configured */
+  private api: Api;
+  private webhooks: Webhooks;
+  /** Prometheus metrics; only set if `METRICS_PORT` is configured */
+  private metrics: Metrics;
   private bots: { [platform in PlatformName]?: Platform } = {};
   /** Hold enabled platforms */
   private platforms: [name: PlatformName, apiKey: string][] = [];
@@ -29,9 +35,17 @@ export default class LotusBot {
     this.prisma = new Database();
     this.wallet = new WalletManager();
     this.handler = new Handler(this.prisma, this.wallet);
+    this.webhooks = new Webhooks(this.handler, this.prisma);
+    if (config.metrics.port) {
+      this.metrics = new Metrics(this.handler, this.wallet);
+    }
     // Handler events
     this.handler.on('Shutdown', this._shutdown);
     this.handler.on('DepositSaved', this._depositSaved);
+    this.handler.on('DepositConfirmed', this._depositConfirmed);
+    this.handler.on('DepositReverted', this._depositReverted);
+    this.handler.on('WithdrawalApproved', this._withdrawalApproved);
+    this.handler.on('WithdrawalRejected', this._withdrawalRejected);
     /** Gather enabled platforms */
     for (const [ platform, apiKey ] of Object.entries(config.apiKeys)) {
       const name = platform as PlatformName;
@@ -41,17 +55,16 @@ export default class LotusBot {
       }
     }
   };
-  /** Informational and error logging */
-  private _log = (
-    module: string,
-    message: string
-  ) => console.log(`${module.toUpperCase()}: ${message}`);
   /** Platform notification error logging */
   private _logPlatformNotifyError = (
     platform: PlatformName,
-    msg: string,
+    platformId: string,
+    event: string,
     error: string
-  ) => this._log(platform, `${msg}: failed to notify user: ${error}`);
+  ) => {
+    this.metrics?.inc('lotusbot_notification_failures_total', { platform });
+    log.warn('failed to notify user', { platform, platformId, event, error });
+  };
   /**
    * Initialize all submodules  
    * Set up required event handlers
@@ -65,7 +78,7 @@ export default class LotusBot {
        */
       try {
         await this.prisma.connect();
-        this._log(DB, 'initialized');
+        log.info('initialized', { component: 'prisma' });
       } catch (e: any) {
         throw new Error(`initPrisma: ${e.message}`);
       }
@@ -76,17 +89,8 @@ export default class LotusBot {
        */
       try {
         const keys = await this.prisma.getUserWalletKeys();
-        await this.wallet.init(
-          keys.map(key => {
-            const { accountId, userId, hdPrivKey } = key;
-            return {
-              accountId,
-              userId,
-              hdPrivKey: WalletManager.hdPrivKeyFromBuffer(hdPrivKey)
-            }
-          })
-        );
-        this._log(WALLET, 'initialized');
+        await this.wallet.init(keys);
+        log.info('initialized', { component: 'walletmanager' });
       } catch (e: any) {
         throw new Error(`initWalletManager: ${e.message}`);
       }
@@ -98,7 +102,7 @@ export default class LotusBot {
         try {
           await this.bots[name].setup(apiKey);
           await this.bots[name].launch();
-          this._log(name, `initialized`);
+          log.info('initialized', { component: name });
         } catch (e: any) {
           throw new Error(`initBot: ${name}: ${e.message}`);
         }
@@ -107,20 +111,49 @@ export default class LotusBot {
        * Initialize primary command handler module
        */
       await this.handler.init();
+      /**
+       * Initialize Webhooks module:  
+       * - Deliver queued payloads to registered webhooks
+       */
+      this.webhooks.init();
+      /**
+       * Initialize Metrics module, if enabled
+       */
+      if (this.metrics) {
+        try {
+          await this.metrics.listen(config.metrics.port, config.metrics.host);
+        } catch (e: any) {
+          throw new Error(`initMetrics: ${e.message}`);
+        }
+      }
+      /**
+       * Initialize HTTP API module, if enabled
+       */
+      if (config.api.port) {
+        try {
+          this.api = new Api(this.handler, this.prisma);
+          await this.api.listen(config.api.port, config.api.host);
+        } catch (e: any) {
+          throw new Error(`initApi: ${e.message}`);
+        }
+      }
     } catch (e: any) {
-      this._log(MAIN, `FATAL: init: ${e.message}`);
+      log.error('FATAL: init failed', { error: e.message });
       await this._shutdown();
     }
-    this._log(MAIN, "service initialized successfully");
+    log.info('service initialized successfully');
   };
   /** Shutdown all submodules */
   private _shutdown = async () => {
-    console.log();
-    this._log(MAIN, 'shutting down');
+    log.info('shutting down');
     /** Shutdown enabled platforms */
     for (const [ name ] of this.platforms) {
       await this.bots[name]?.stop();
     }
+    await this.api?.close();
+    await this.webhooks?.close();
+    this.handler?.close();
+    await this.metrics?.close();
     this.wallet?.closeWsEndpoint();
     await this.prisma?.disconnect();
     process.exit(1);
@@ -147,12 +180,155 @@ export default class LotusBot {
         amount,
         balance
       );
-      this._log(
+      log.info('user notified of deposit received', {
         platform,
-        `${platformId}: user notified of deposit received: ${txid}`
+        platformId,
+        txid
+      });
+    } catch (e: any) {
+      this._logPlatformNotifyError(
+        platform,
+        platformId,
+        '_depositSaved',
+        e.message
+      );
+    }
+  };
+
+  private _depositConfirmed = async ({
+    platform,
+    platformId,
+    txid,
+    amount,
+    balance
+  }: {
+    platform: PlatformName,
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string
+  }) => {
+    // try to notify user of deposit confirmed
+    try {
+      await this.bots[platform].sendDepositConfirmed(
+        platformId,
+        txid,
+        amount,
+        balance
       );
+      log.info('user notified of deposit confirmed', {
+        platform,
+        platformId,
+        txid
+      });
     } catch (e: any) {
-      this._logPlatformNotifyError(platform, '_depositSaved', e.message);
+      this._logPlatformNotifyError(
+        platform,
+        platformId,
+        '_depositConfirmed',
+        e.message
+      );
+    }
+  };
+
+  private _depositReverted = async ({
+    platform,
+    platformId,
+    txid,
+    amount,
+    balance
+  }: {
+    platform: PlatformName,
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string
+  }) => {
+    // try to notify user of deposit reverted
+    try {
+      await this.bots[platform].sendDepositReverted(
+        platformId,
+        txid,
+        amount,
+        balance
+      );
+      log.info('user notified of deposit reverted', {
+        platform,
+        platformId,
+        txid
+      });
+    } catch (e: any) {
+      this._logPlatformNotifyError(
+        platform,
+        platformId,
+        '_depositReverted',
+        e.message
+      );
+    }
+  };
+
+  private _withdrawalApproved = async ({
+    platform,
+    platformId,
+    txid,
+    amount
+  }: {
+    platform: PlatformName,
+    platformId: string,
+    txid: string,
+    amount: string
+  }) => {
+    // try to notify user of withdrawal approved
+    try {
+      await this.bots[platform].sendWithdrawalApproved(
+        platformId,
+        txid,
+        amount
+      );
+      log.info('user notified of withdrawal approved', {
+        platform,
+        platformId,
+        txid
+      });
+    } catch (e: any) {
+      this._logPlatformNotifyError(
+        platform,
+        platformId,
+        '_withdrawalApproved',
+        e.message
+      );
+    }
+  };
+
+  private _withdrawalRejected = async ({
+    platform,
+    platformId,
+    amount,
+    reason
+  }: {
+    platform: PlatformName,
+    platformId: string,
+    amount: string,
+    reason: string
+  }) => {
+    // try to notify user of withdrawal rejected
+    try {
+      await this.bots[platform].sendWithdrawalRejected(
+        platformId,
+        amount,
+        reason
+      );
+      log.info('user notified of withdrawal rejected', {
+        platform,
+        platformId
+      });
+    } catch (e: any) {
+      this._logPlatformNotifyError(
+        platform,
+        platformId,
+        '_withdrawalRejected',
+        e.message
+      );
     }
   };
 
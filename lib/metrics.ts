@@ -0,0 +1,201 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { Handler } from './handler';
+import { WalletManager, WsState } from './wallet';
+import * as Util from '../util';
+import logger from '../util/logger';
+
+const log = logger.child({ module: 'metrics' });
+const WS_STATES: WsState[] = [
+  'connecting',
+  'connected',
+  'disconnected',
+  'closed'
+];
+
+type Labels = { [name: string]: string };
+type Metric = {
+  type: 'counter' | 'gauge',
+  help: string,
+  /** Value of each label set, by its rendered labels */
+  values: Map<string, number>
+};
+
+/**
+ * Prometheus metrics  
+ * Counts `Handler` events as they happen and reads the wallet state when
+ * scraped; served as text at `/metrics`
+ */
+export class Metrics {
+  private handler: Handler;
+  private wallet: WalletManager;
+  private server: Server;
+  private metrics: { [name: string]: Metric } = {};
+
+  constructor(
+    handler: Handler,
+    wallet: WalletManager
+  ) {
+    this.handler = handler;
+    this.wallet = wallet;
+    this.server = createServer(this._handleRequest);
+    this._define('lotusbot_commands_total', 'counter',
+      'Commands received, by platform and command');
+    this._define('lotusbot_gives_total', 'counter',
+      'Users given to, including each user of a rain');
+    this._define('lotusbot_give_volume_xpi_total', 'counter',
+      'XPI given, including rains');
+    this._define('lotusbot_withdrawals_total', 'counter',
+      'Withdrawals broadcasted');
+    this._define('lotusbot_withdrawal_volume_xpi_total', 'counter',
+      'XPI withdrawn, excluding fees');
+    this._define('lotusbot_broadcast_failures_total', 'counter',
+      'Transactions rejected by the network, by command');
+    this._define('lotusbot_notification_failures_total', 'counter',
+      'Platform notifications that could not be sent');
+    this._define('lotusbot_chronik_ws_state', 'gauge',
+      'Connection state of the Chronik WS; 1 for the current state');
+    this._define('lotusbot_wallet_keys', 'gauge',
+      'WalletKeys loaded');
+    this._define('lotusbot_utxo_value_xpi', 'gauge',
+      'Total value of the custodial UTXOs');
+    this.handler.on('CommandReceived', ({ platform, command }) => {
+      this.inc('lotusbot_commands_total', { platform, command });
+    });
+    this.handler.on('GiveSent', ({ platform, toIds, amount, onChain }) => {
+      const labels = { platform, on_chain: String(onChain) };
+      this.inc('lotusbot_gives_total', labels, toIds.length);
+      this.inc(
+        'lotusbot_give_volume_xpi_total',
+        labels,
+        Number(amount) * toIds.length
+      );
+    });
+    this.handler.on('WithdrawalSent', ({ platform, amount }) => {
+      this.inc('lotusbot_withdrawals_total', { platform });
+      this.inc(
+        'lotusbot_withdrawal_volume_xpi_total',
+        { platform },
+        Number(amount)
+      );
+    });
+    this.handler.on('BroadcastFailed', ({ command }) => {
+      this.inc('lotusbot_broadcast_failures_total', { command });
+    });
+  };
+  /** Start serving `/metrics` on `host`:`port` */
+  listen = async (
+    port: number,
+    host: string
+  ) => {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    log.info('listening', { host, port });
+  };
+  /** Stop serving `/metrics` */
+  close = async () => {
+    if (!this.server.listening) {
+      return;
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  };
+  /** Increment the counter `name` of `labels` by `value` */
+  inc = (
+    name: string,
+    labels: Labels,
+    value = 1
+  ) => {
+    const { values } = this.metrics[name];
+    const key = this._renderLabels(labels);
+    values.set(key, (values.get(key) ?? 0) + value);
+  };
+  /** Render all metrics in the Prometheus text format */
+  render = () => {
+    this._collect();
+    const lines: string[] = [];
+    for (const [ name, metric ] of Object.entries(this.metrics)) {
+      const { type, help, values } = metric;
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [ labels, value ] of values) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  };
+
+  private _define = (
+    name: string,
+    type: Metric['type'],
+    help: string
+  ) => {
+    this.metrics[name] = { type, help, values: new Map() };
+  };
+  private _set = (
+    name: string,
+    labels: Labels,
+    value: number
+  ) => {
+    this.metrics[name].values.set(this._renderLabels(labels), value);
+  };
+  /** Update the gauges read from the wallet */
+  private _collect = () => {
+    const wsState = this.wallet.getWsState();
+    for (const state of WS_STATES) {
+      const value = Number(state == wsState);
+      this._set('lotusbot_chronik_ws_state', { state }, value);
+    }
+    this._set('lotusbot_wallet_keys', {}, this.wallet.getKeyCount());
+    const sats = this.wallet.getUtxos()
+      .reduce((total, utxo) => total + Number(utxo.value), 0);
+    this._set('lotusbot_utxo_value_xpi', {}, Number(Util.toXPI(sats)));
+  };
+  private _renderLabels = (
+    labels: Labels
+  ) => {
+    const pairs = Object.entries(labels).map(([ name, value ]) => {
+      const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n');
+      return `${name}="${escaped}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  };
+  private _handleRequest = (
+    req: IncomingMessage,
+    res: ServerResponse
+  ) => {
+    let pathname: string;
+    try {
+      pathname = new URL(req.url, 'http://localhost').pathname;
+    } catch (e: any) {
+      res.writeHead(400);
+      return res.end();
+    }
+    if (pathname != '/metrics') {
+      res.writeHead(404);
+      return res.end();
+    } else if (req.method != 'GET') {
+      res.writeHead(405);
+      return res.end();
+    }
+    try {
+      const body = this.render();
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(body);
+    } catch (e: any) {
+      log.error('render failed', { error: e.message });
+      res.writeHead(500);
+      res.end();
+    }
+  };
+};
\ No newline at end of file
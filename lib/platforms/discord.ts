@@ -9,18 +9,57 @@ import {
   Partials,
   ActivityType,
   Message,
-  ChannelType
+  ChannelType,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ButtonInteraction,
+  Interaction
 } from 'discord.js';
-import { BOT } from '../../util/constants';
+import { BOT, TRANSACTION } from '../../util/constants';
 import { format } from 'node:util';
 import { Platform } from '.';
 import config from '../../config';
-import { Handler } from '../handler';
+import logger from '../../util/logger';
+import { Handler, HistoryEntry } from '../handler';
 
+const log = logger.child({ module: 'discord' });
+/** Number of user options of the rain command */
+const RAIN_USER_OPTIONS = Math.min(TRANSACTION.MAX_RAIN_RECIPIENTS, 10);
 // DM Branding
 const primaryColor: ColorResolvable = 0xa02fe4;
 const secondaryColor: ColorResolvable = 0xf0409b;
 
+const formatHistoryEntry = (
+  entry: HistoryEntry
+) => {
+  const date = `<t:${Math.floor(entry.timestamp.getTime() / 1000)}:d>`;
+  const counterparty = entry.counterparty || 'unknown user';
+  let text: string;
+  switch (entry.type) {
+    case 'deposit':
+      text = format(BOT.MESSAGE.HISTORY_DEPOSIT, date, entry.amount);
+      break;
+    case 'withdrawal':
+      text = format(BOT.MESSAGE.HISTORY_WITHDRAWAL, date, entry.amount);
+      break;
+    case 'give':
+      text = format(BOT.MESSAGE.HISTORY_GIVE, date, entry.amount, counterparty);
+      break;
+    case 'receive':
+      text = format(
+        BOT.MESSAGE.HISTORY_RECEIVE,
+        date,
+        entry.amount,
+        counterparty
+      );
+      break;
+  }
+  return entry.onChain
+    ? `${text} ([tx](${config.wallet.explorerUrl}/tx/${entry.txid}))`
+    : text;
+};
+
 type Command = {
   name: string,
   description: string,
@@ -31,8 +70,28 @@ type CommandOption = {
   type: number,
   name: string,
   description: string,
-  required: boolean
+  /** Not allowed on subcommands (type 1) */
+  required?: boolean,
+  /** Options of a subcommand */
+  options?: CommandOption[],
+  /** Only values the user can choose from */
+  choices?: { name: string, value: string }[]
 };
+/** Options of admin subcommands that target a user */
+const ADMIN_TARGET_OPTIONS: CommandOption[] = [
+  {
+    type: 3,
+    name: 'platform',
+    description: 'Platform of the user: telegram, twitter or discord',
+    required: true
+  },
+  {
+    type: 3,
+    name: 'id',
+    description: 'ID of the user on the platform',
+    required: true
+  }
+];
 
 export class Discord
 implements Platform {
@@ -85,6 +144,30 @@ implements Platform {
           }
         ]
       },
+      {
+        name: 'rain',
+        description: 'Give XPI to multiple users at once.',
+        options: [
+          {
+            type: 10,
+            name: "amount",
+            description: "Amount of XPI to split between the users.",
+            required: true
+          },
+          ...Array.from({ length: RAIN_USER_OPTIONS }, (_, i) => ({
+            type: 6,
+            name: `user${i + 1}`,
+            description: "User to give XPI to",
+            required: i == 0
+          })),
+          {
+            type: 5,
+            name: "each",
+            description: "Give the amount to each user instead of splitting it.",
+            required: false
+          }
+        ]
+      },
       {
         name: 'balance',
         description: 'Get balance information for the currently logged in user.'
@@ -97,17 +180,23 @@ implements Platform {
         name: 'withdraw',
         description: 'Withdraw XPI from your wallet in the bot.',
         options: [
+          {
+            type: 3,
+            name: "address",
+            description: "XPI Address for your external wallet.",
+            required: true
+          },
           {
             type: 10,
             name: "amount",
             description: "Amount of XPI to withdraw.",
-            required: true
+            required: false
           },
           {
-            type: 3,
-            name: "address",
-            description: "XPI Address for your external wallet.",
-            required: true
+            type: 5,
+            name: "all",
+            description: "Withdraw your whole balance instead of an amount.",
+            required: false
           }
         ]
       },
@@ -120,13 +209,127 @@ implements Platform {
             name: 'secret',
             description: 'Optional - Secret provided from another account',
             required: false
+          },
+          {
+            type: 3,
+            name: 'keep',
+            description: 'Optional - Account to keep; defaults to the other',
+            required: false,
+            choices: [
+              { name: 'this', value: 'this' },
+              { name: 'other', value: 'other' }
+            ]
+          },
+          {
+            type: 5,
+            name: 'reset',
+            description: 'Optional - Replace your secret with a new one',
+            required: false
           }
         ],
       },
+      {
+        name: 'unlink',
+        description: 'Unlink this Discord account from your other accounts'
+      },
       {
         name: 'backup',
         description: 'Back up the seed phrase for this platform'
       },
+      {
+        name: 'history',
+        description: 'List your past deposits, withdrawals and gives.',
+        options: [
+          {
+            type: 4,
+            name: 'page',
+            description: 'Optional - Page of the history to show',
+            required: false
+          }
+        ]
+      },
+      {
+        name: 'admin',
+        description: 'Operator commands; requires an admin role.',
+        options: [
+          {
+            type: 1,
+            name: 'totals',
+            description: 'Compare wallet UTXOs with the off-chain ledger'
+          },
+          {
+            type: 1,
+            name: 'reserves',
+            description: 'Compare wallet UTXOs with the balance of every account'
+          },
+          {
+            type: 1,
+            name: 'lookup',
+            description: 'Show the account of a user',
+            options: ADMIN_TARGET_OPTIONS
+          },
+          {
+            type: 1,
+            name: 'freeze',
+            description: 'Freeze the account of a user',
+            options: ADMIN_TARGET_OPTIONS
+          },
+          {
+            type: 1,
+            name: 'unfreeze',
+            description: 'Unfreeze the account of a user',
+            options: ADMIN_TARGET_OPTIONS
+          },
+          {
+            type: 1,
+            name: 'resync',
+            description: 'Reload the UTXOs of a user',
+            options: ADMIN_TARGET_OPTIONS
+          },
+          {
+            type: 1,
+            name: 'failures',
+            description: 'List recent failed broadcasts'
+          },
+          {
+            type: 1,
+            name: 'pending',
+            description: 'List withdrawals awaiting approval'
+          },
+          {
+            type: 1,
+            name: 'approve',
+            description: 'Approve and send a withdrawal',
+            options: [
+              {
+                type: 3,
+                name: 'request',
+                description: 'ID of the withdrawal request',
+                required: true
+              }
+            ]
+          },
+          {
+            type: 1,
+            name: 'reject',
+            description: 'Reject a withdrawal',
+            options: [
+              {
+                type: 3,
+                name: 'request',
+                description: 'ID of the withdrawal request',
+                required: true
+              },
+              {
+                type: 3,
+                name: 'reason',
+                description: 'Optional - Reason sent to the user',
+                required: false
+              }
+            ]
+          }
+        ]
+      },
       {
         name: 'ping',
         description: 'pong'
@@ -136,6 +339,7 @@ implements Platform {
       // this.client.on('ready', this._handleReady);
       this.client.on('messageCreate', this._handleDirectMessage);
       this.client.on('interactionCreate', this._handleCommandMessage);
+      this.client.on('interactionCreate', this._handleButtonInteraction);
       this.client.token = apiKey;
       this.client.rest = new REST({ version: '10' }).setToken(apiKey);
     } catch (e: any) {
@@ -163,19 +367,32 @@ implements Platform {
     platformId: string,
   ) => {
     try {
-      const balance = await this.handler.processBalanceCommand(
-        'discord',
-        platformId
-      );
+      const {
+        total,
+        spendable,
+        confirmed,
+        unconfirmed,
+        locked,
+        ledger
+      } = await this.handler.processBalanceCommand('discord', platformId);
       await interaction.reply({
-        content: format(BOT.MESSAGE.BALANCE, balance),
+        content: format(
+          BOT.MESSAGE.BALANCE,
+          total,
+          spendable,
+          confirmed,
+          unconfirmed,
+          locked
+        ) + (config.wallet.ledger
+          ? format(BOT.MESSAGE.BALANCE_LEDGER, ledger)
+          : ''),
         ephemeral: true
       });
     } catch (e: any) {
-      this.handler.log(
-        'discord',
-        `${platformId}: handleBalanceCommand: ${e.message}`
-      );
+      log.error('handleBalanceCommand failed', {
+        platformId,
+        error: e.message
+      });
     }
   };
 
@@ -200,10 +417,10 @@ implements Platform {
         ephemeral: true
       });
     } catch (e: any) {
-      this.handler.log(
-        'discord',
-        `${platformId}: handleDepositCommand: ${e.message}`
-      );
+      log.error('handleDepositCommand failed', {
+        platformId,
+        error: e.message
+      });
     }
   };
 
@@ -216,27 +433,91 @@ implements Platform {
     value: string,
   ) => {
     try {
-      const { txid, amount } = await this.handler.processGiveCommand(
+      const result = await this.handler.processGiveCommand(
         'discord',
         fromId,
         fromUsername,
         toId,
         toUsername,
-        value
+        value,
+        interaction.channelId,
+        `discord:${interaction.id}`
       );
       const fromUser = `<@${fromId}>`;
+      if (typeof result == 'string') {
+        await interaction.reply({
+          content: format(BOT.MESSAGE.GIVE_FAIL, fromUser, result),
+          ephemeral: true
+        });
+        return;
+      }
+      const { txid, amount, onChain } = result;
       const toUser = `<@${toId}>`;
       const giveReplyEmbed = new EmbedBuilder()
         .setColor(primaryColor)
-        .setTitle(`🪷 Click Here to see the tx 🪷`)
-        .setURL(`${config.wallet.explorerUrl}/tx/${txid}`)
         .setDescription(`${fromUser}, you have given ${amount} XPI to ${toUser}! 🪷`);
+      if (onChain) {
+        giveReplyEmbed
+          .setTitle(`🪷 Click Here to see the tx 🪷`)
+          .setURL(`${config.wallet.explorerUrl}/tx/${txid}`);
+      }
       await interaction.reply({ embeds: [giveReplyEmbed] });
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleGiveCommand failed', {
+        platformId: fromId,
+        error: e.message
+      });
+    }
+  };
+
+  private handleRainCommand = async (
+    interaction: ChatInputCommandInteraction,
+    fromId: string,
+    fromUsername: string,
+    recipients: Array<{ platformId: string, username: string }>,
+    value: string,
+    each: boolean,
+  ) => {
+    try {
+      const result = await this.handler.processRainCommand(
         'discord',
-        `${fromId}: handleGiveCommand: ${e.message}`
+        fromId,
+        fromUsername,
+        recipients,
+        value,
+        each,
+        interaction.channelId,
+        `discord:${interaction.id}`
       );
+      const fromUser = `<@${fromId}>`;
+      if (typeof result == 'string') {
+        await interaction.reply({
+          content: format(BOT.MESSAGE.RAIN_FAIL, fromUser, result),
+          ephemeral: true
+        });
+        return;
+      }
+      const { txid, amount, onChain } = result;
+      const toUsers = recipients
+        .map(recipient => `<@${recipient.platformId}>`)
+        .join(', ');
+      const rainReplyEmbed = new EmbedBuilder()
+        .setColor(primaryColor)
+        .setDescription(
+          `${fromUser}, you have made it rain ${amount} XPI on each of ` +
+          `${toUsers}! 🪷`
+        );
+      if (onChain) {
+        rainReplyEmbed
+          .setTitle(`🪷 Click Here to see the tx 🪷`)
+          .setURL(`${config.wallet.explorerUrl}/tx/${txid}`);
+      }
+      await interaction.reply({ embeds: [rainReplyEmbed] });
+    } catch (e: any) {
+      log.error('handleRainCommand failed', {
+        platformId: fromId,
+        error: e.message
+      });
     }
   };
 
@@ -247,11 +528,12 @@ implements Platform {
     outAddress: string,
   ) => {
     try {
-      const result = await this.handler.processWithdrawCommand(
+      const result = await this.handler.processWithdrawPreview(
         'discord',
         platformId,
         outAmount,
-        outAddress
+        outAddress,
+        `discord:${interaction.id}`
       );
       if (typeof result == 'string') {
         await interaction.reply({
@@ -259,21 +541,102 @@ implements Platform {
           ephemeral: true
         });
         throw new Error(result);
+      } else if ('requestId' in result) {
+        await interaction.reply({
+          content: format(
+            BOT.MESSAGE.WITHDRAW_PENDING,
+            result.amount,
+            outAddress
+          ),
+          ephemeral: true
+        });
+        return;
       }
-      const embedMessage = new EmbedBuilder()
-        .setColor(secondaryColor)
-        .setTitle('Withdrawal Successful 🪷 - Click Here to see the tx.')
-        .setURL(`${config.wallet.explorerUrl}/tx/${result.txid}`)
-        .setDescription(`Your withdrawal of ${result.amount} XPI was successful!`);
+      const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`withdraw:confirm:${result.withdrawalId}`)
+          .setLabel('Confirm')
+          .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+          .setCustomId(`withdraw:cancel:${result.withdrawalId}`)
+          .setLabel('Cancel')
+          .setStyle(ButtonStyle.Secondary),
+      );
       await interaction.reply({
-        embeds: [embedMessage],
+        content: format(
+          BOT.MESSAGE.WITHDRAW_PREVIEW,
+          outAddress,
+          result.total,
+          result.fee,
+          result.serviceFee,
+          result.amount,
+          BOT.WITHDRAW_CONFIRM_TIMEOUT / 1000
+        ),
+        components: [buttons],
         ephemeral: true
       });
     } catch (e: any) {
-      this.handler.log(
-        'discord',
-        `${platformId}: handleWithdrawCommand: ${e.message}`
-      );
+      log.error('handleWithdrawCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Confirm or cancel a withdrawal from the buttons of its preview */
+  private handleWithdrawAction = async (
+    interaction: ButtonInteraction,
+    platformId: string,
+    action: string,
+    withdrawalId: string,
+  ) => {
+    try {
+      switch (action) {
+        case 'confirm':
+          const result = await this.handler.processWithdrawConfirm(
+            'discord',
+            platformId,
+            withdrawalId,
+            `discord:withdraw:${withdrawalId}`
+          );
+          if (typeof result == 'string') {
+            await interaction.update({
+              content: format(BOT.MESSAGE.WITHDRAW_FAIL, result),
+              components: []
+            });
+            throw new Error(result);
+          }
+          const embedMessage = new EmbedBuilder()
+            .setColor(secondaryColor)
+            .setTitle('Withdrawal Successful 🪷 - Click Here to see the tx.')
+            .setURL(`${config.wallet.explorerUrl}/tx/${result.txid}`)
+            .setDescription(
+              `Your withdrawal of ${result.amount} XPI was successful!`
+            );
+          await interaction.update({
+            content: '',
+            embeds: [embedMessage],
+            components: []
+          });
+          break;
+        case 'cancel':
+          const cancelled = await this.handler.processWithdrawCancel(
+            'discord',
+            platformId,
+            withdrawalId
+          );
+          await interaction.update({
+            content: typeof cancelled == 'string'
+              ? format(BOT.MESSAGE.WITHDRAW_FAIL, cancelled)
+              : BOT.MESSAGE.WITHDRAW_CANCEL,
+            components: []
+          });
+          break;
+      }
+    } catch (e: any) {
+      log.error('handleWithdrawAction failed', {
+        platformId,
+        error: e.message
+      });
     }
   };
 
@@ -281,12 +644,14 @@ implements Platform {
     interaction: ChatInputCommandInteraction | Message,
     platformId: string,
     secret: string | undefined,
+    keepOwn: boolean,
   ) => {
     try {
       const result = await this.handler.processLinkCommand(
         'discord',
         platformId,
-        secret
+        secret,
+        keepOwn
       );
       if (typeof result == 'string') {
         await interaction.reply({
@@ -294,40 +659,392 @@ implements Platform {
           ephemeral: true
         });
         throw new Error(result);
+      } else if ('secret' in result) {
+        await interaction.reply({
+          content: format(
+            BOT.MESSAGE.LINK,
+            result.secret,
+            BOT.LINK_SECRET_TTL / 60000
+          ),
+          ephemeral: true
+        });
+        return;
       }
-      const msg = typeof result.secret == 'string'
-        ? format(BOT.MESSAGE.LINK, result.secret)
-        : BOT.MESSAGE.LINK_OK;
       await interaction.reply({
-        content: msg,
+        content: format(
+          BOT.MESSAGE.LINK_PREVIEW,
+          result.users,
+          result.keepOwn ? 'this account' : 'your other account',
+          result.balance,
+          BOT.LINK_CONFIRM_TIMEOUT / 1000
+        ),
+        components: [this.linkButtons(result.linkId)],
         ephemeral: true
       });
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleLinkCommand failed', { platformId, error: e.message });
+    }
+  };
+
+  private handleLinkResetCommand = async (
+    interaction: ChatInputCommandInteraction | Message,
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processLinkResetCommand(
         'discord',
-        `${platformId}: handleLinkCommand: ${e.message}`
+        platformId
       );
+      if (typeof result == 'string') {
+        await interaction.reply({
+          content: format(BOT.MESSAGE.LINK_FAIL, result),
+          ephemeral: true
+        });
+        throw new Error(result);
+      }
+      await interaction.reply({
+        content: format(
+          BOT.MESSAGE.LINK,
+          result.secret,
+          BOT.LINK_SECRET_TTL / 60000
+        ),
+        ephemeral: true
+      });
+    } catch (e: any) {
+      log.error('handleLinkResetCommand failed', {
+        platformId,
+        error: e.message
+      });
     }
   };
 
-  private handleBackupCommand = async (
+  private handleUnlinkCommand = async (
     interaction: ChatInputCommandInteraction | Message,
     platformId: string,
   ) => {
     try {
-      const mnemonic = await this.handler.processBackupCommand(
+      const result = await this.handler.processUnlinkCommand(
         'discord',
         platformId
       );
+      if (typeof result == 'string') {
+        await interaction.reply({
+          content: format(BOT.MESSAGE.UNLINK_FAIL, result),
+          ephemeral: true
+        });
+        throw new Error(result);
+      }
       await interaction.reply({
-        content: format(BOT.MESSAGE.BACKUP, mnemonic),
+        content: format(
+          BOT.MESSAGE.UNLINK_PREVIEW,
+          result.balance,
+          result.remaining,
+          BOT.LINK_CONFIRM_TIMEOUT / 1000
+        ),
+        components: [this.linkButtons(result.linkId)],
         ephemeral: true
       });
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleUnlinkCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Confirm or cancel a link or unlink from the buttons of its preview */
+  private handleLinkAction = async (
+    interaction: ButtonInteraction,
+    platformId: string,
+    action: string,
+    linkId: string,
+  ) => {
+    try {
+      const result = action == 'confirm'
+        ? await this.handler.processLinkConfirm('discord', platformId, linkId)
+        : await this.handler.processLinkCancel('discord', platformId, linkId);
+      let content: string;
+      if (typeof result == 'string') {
+        content = format(BOT.MESSAGE.LINK_FAIL, result);
+      } else if (action == 'confirm') {
+        content = result.type == 'link'
+          ? BOT.MESSAGE.LINK_OK
+          : BOT.MESSAGE.UNLINK_OK;
+      } else {
+        content = result.type == 'link'
+          ? BOT.MESSAGE.LINK_CANCEL
+          : BOT.MESSAGE.UNLINK_CANCEL;
+      }
+      await interaction.update({ content, components: [] });
+    } catch (e: any) {
+      log.error('handleLinkAction failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Buttons to confirm or cancel the link or unlink of `linkId` */
+  private linkButtons = (
+    linkId: string
+  ) => new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`link:confirm:${linkId}`)
+      .setLabel('Confirm')
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(`link:cancel:${linkId}`)
+      .setLabel('Cancel')
+      .setStyle(ButtonStyle.Secondary),
+  );
+
+  private handleHistoryCommand = async (
+    interaction: ChatInputCommandInteraction | Message,
+    platformId: string,
+    page: number,
+  ) => {
+    try {
+      const result = await this.handler.processHistoryCommand(
         'discord',
-        `${platformId}: handleBackupCommand: ${e.message}`
+        platformId,
+        page
       );
+      if (result.entries.length < 1) {
+        await interaction.reply({
+          content: BOT.MESSAGE.HISTORY_EMPTY,
+          ephemeral: true
+        });
+        return;
+      }
+      const historyEmbed = new EmbedBuilder()
+        .setColor(primaryColor)
+        .setTitle(`Transaction History (page ${result.page} of ${result.pages})`)
+        .setDescription(result.entries.map(formatHistoryEntry).join('\r\n'));
+      await interaction.reply({
+        embeds: [historyEmbed],
+        ephemeral: true
+      });
+    } catch (e: any) {
+      log.error('handleHistoryCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+
+  private handleBackupCommand = async (
+    interaction: ChatInputCommandInteraction | Message,
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processBackupCommand(
+        'discord',
+        platformId
+      );
+      await interaction.reply({
+        content: typeof result == 'string'
+          ? format(BOT.MESSAGE.BACKUP_FAIL, result)
+          : format(BOT.MESSAGE.BACKUP, result.mnemonic),
+        ephemeral: true
+      });
+    } catch (e: any) {
+      log.error('handleBackupCommand failed', { platformId, error: e.message });
+    }
+  };
+
+  private handleAdminCommand = async (
+    interaction: ChatInputCommandInteraction,
+    platformId: string,
+  ) => {
+    try {
+      const roles = interaction.member?.roles;
+      const roleIds = Array.isArray(roles)
+        ? roles
+        : roles?.cache.map(role => role.id) ?? [];
+      if (!roleIds.some(roleId => config.admins.discord.includes(roleId))) {
+        await interaction.reply({
+          content: BOT.MESSAGE.ERR_NOT_ADMIN,
+          ephemeral: true
+        });
+        return;
+      }
+      const subcommand = interaction.options.getSubcommand();
+      const targetPlatform = interaction.options.getString('platform')
+        ?.toLowerCase();
+      const targetId = interaction.options.getString('id');
+      let content: string;
+      switch (subcommand) {
+        case 'totals': {
+          const result = await this.handler.processAdminTotalsCommand(
+            'discord',
+            platformId
+          );
+          content = format(
+            BOT.MESSAGE.ADMIN_TOTALS,
+            result.utxos,
+            result.ledgerCredit,
+            result.ledgerDebt,
+            result.ledgerTotal
+          );
+          break;
+        }
+        case 'reserves': {
+          const result = await this.handler.processAdminReservesCommand(
+            'discord',
+            platformId
+          );
+          const flagged = result.accounts
+            .filter(account => account.status != 'ok')
+            .slice(0, BOT.ADMIN_RESERVES_LIMIT)
+            .map(account => format(
+              BOT.MESSAGE.ADMIN_RESERVES_ACCOUNT,
+              account.accountId,
+              account.status,
+              account.difference
+            ));
+          content = format(
+            BOT.MESSAGE.ADMIN_RESERVES,
+            result.solvent ? 'yes' : 'no',
+            result.expected,
+            result.utxos,
+            result.difference,
+            result.stale,
+            result.flagged
+          );
+          if (flagged.length > 0) {
+            content += `\r\n\r\n${flagged.join('\r\n')}`;
+          }
+          break;
+        }
+        case 'lookup': {
+          const result = await this.handler.processAdminLookupCommand(
+            'discord',
+            platformId,
+            targetPlatform,
+            targetId
+          );
+          content = typeof result == 'string'
+            ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+            : format(
+              BOT.MESSAGE.ADMIN_LOOKUP,
+              result.accountId,
+              result.userId,
+              result.frozen ? 'yes' : 'no',
+              result.users.join(', '),
+              result.addresses.join(', '),
+              result.balance
+            );
+          break;
+        }
+        case 'freeze':
+        case 'unfreeze': {
+          const frozen = subcommand == 'freeze';
+          const result = await this.handler.processAdminFreezeCommand(
+            'discord',
+            platformId,
+            targetPlatform,
+            targetId,
+            frozen
+          );
+          content = typeof result == 'string'
+            ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+            : format(
+              BOT.MESSAGE.ADMIN_FREEZE,
+              result.accountId,
+              frozen ? 'frozen' : 'unfrozen'
+            );
+          break;
+        }
+        case 'resync': {
+          const result = await this.handler.processAdminResyncCommand(
+            'discord',
+            platformId,
+            targetPlatform,
+            targetId
+          );
+          content = typeof result == 'string'
+            ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+            : format(
+              BOT.MESSAGE.ADMIN_RESYNC,
+              result.userId,
+              result.added,
+              result.removed
+            );
+          break;
+        }
+        case 'failures': {
+          const failures = await this.handler.processAdminFailuresCommand(
+            'discord',
+            platformId
+          );
+          content = failures.length > 0
+            ? format(
+              BOT.MESSAGE.ADMIN_FAILURES,
+              failures.map(failure => format(
+                BOT.MESSAGE.ADMIN_FAILURE,
+                failure.timestamp.toISOString(),
+                failure.command,
+                failure.txid,
+                failure.userId,
+                failure.error
+              )).join('\r\n')
+            )
+            : BOT.MESSAGE.ADMIN_FAILURES_NONE;
+          break;
+        }
+        case 'pending': {
+          const requests = await this.handler.processAdminPendingCommand(
+            'discord',
+            platformId
+          );
+          content = requests.length > 0
+            ? format(
+              BOT.MESSAGE.ADMIN_PENDING,
+              requests.map(request => format(
+                BOT.MESSAGE.ADMIN_PENDING_ENTRY,
+                request.requestId,
+                request.amount,
+                request.user,
+                request.outAddress,
+                request.timestamp.toISOString()
+              )).join('\r\n')
+            )
+            : BOT.MESSAGE.ADMIN_PENDING_NONE;
+          break;
+        }
+        case 'approve': {
+          const result = await this.handler.processAdminApproveCommand(
+            'discord',
+            platformId,
+            interaction.options.getString('request')
+          );
+          content = typeof result == 'string'
+            ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+            : format(
+              BOT.MESSAGE.ADMIN_APPROVE,
+              result.amount,
+              `${config.wallet.explorerUrl}/tx/${result.txid}`
+            );
+          break;
+        }
+        case 'reject': {
+          const result = await this.handler.processAdminRejectCommand(
+            'discord',
+            platformId,
+            interaction.options.getString('request'),
+            interaction.options.getString('reason') || undefined
+          );
+          content = typeof result == 'string'
+            ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+            : format(BOT.MESSAGE.ADMIN_REJECT, result.requestId);
+          break;
+        }
+      }
+      await interaction.reply({ content, ephemeral: true });
+    } catch (e: any) {
+      log.error('handleAdminCommand failed', { platformId, error: e.message });
+      await interaction.reply({
+        content: format(BOT.MESSAGE.ADMIN_FAIL, e.message),
+        ephemeral: true
+      }).catch(() => undefined);
     }
   };
 
@@ -354,6 +1071,93 @@ implements Platform {
     }
   };
 
+  sendDepositConfirmed = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string,
+  ) => {
+    try {
+      const embedMessage = new EmbedBuilder()
+        .setColor(primaryColor)
+        .setTitle('Deposit Confirmed 🪷 - Click Here to see the tx.')
+        .setURL(`${config.wallet.explorerUrl}/tx/${txid}`)
+        .setDescription(
+          `Your deposit of ${amount} XPI has been confirmed! ` +
+          `Your balance is now ${balance} XPI.`
+        );
+      const userObj = await this.client.users.fetch(platformId);
+      await userObj.send({ embeds: [embedMessage] });
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositConfirmed: ${e.message}`);
+    }
+  };
+
+  sendDepositReverted = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string,
+  ) => {
+    try {
+      const embedMessage = new EmbedBuilder()
+        .setColor(secondaryColor)
+        .setTitle('Deposit Reverted - Click Here to see the tx.')
+        .setURL(`${config.wallet.explorerUrl}/tx/${txid}`)
+        .setDescription(
+          `Your deposit of ${amount} XPI was dropped by the network and has ` +
+          `been removed from your balance. Your balance is now ${balance} XPI.`
+        );
+      const userObj = await this.client.users.fetch(platformId);
+      await userObj.send({ embeds: [embedMessage] });
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositReverted: ${e.message}`);
+    }
+  };
+
+  sendWithdrawalApproved = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+  ) => {
+    try {
+      const embedMessage = new EmbedBuilder()
+        .setColor(primaryColor)
+        .setTitle('Withdrawal Approved - Click Here to see the tx.')
+        .setURL(`${config.wallet.explorerUrl}/tx/${txid}`)
+        .setDescription(
+          `Your withdrawal of ${amount} XPI has been approved and sent!`
+        );
+      const userObj = await this.client.users.fetch(platformId);
+      await userObj.send({ embeds: [embedMessage] });
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalApproved: ${e.message}`);
+    }
+  };
+
+  sendWithdrawalRejected = async (
+    platformId: string,
+    amount: string,
+    reason: string,
+  ) => {
+    try {
+      const embedMessage = new EmbedBuilder()
+        .setColor(secondaryColor)
+        .setTitle('Withdrawal Rejected')
+        .setDescription(
+          format(BOT.MESSAGE.WITHDRAW_REJECTED, amount, reason)
+        );
+      const userObj = await this.client.users.fetch(platformId);
+      await userObj.send({ embeds: [embedMessage] });
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalRejected: ${e.message}`);
+    }
+  };
+
   private _registerCommands = async (guildId: string) => {
     try {
       await this.client.rest.put(
@@ -396,27 +1200,55 @@ implements Platform {
         if (words.length < 3) {
           await message.reply(
             `You must use the following syntax for withdrawing:\r\n` +
-            "`withdraw <amount> <external_address>`"
+            "`withdraw <amount|all> <external_address>`"
           );
           break;
         }
-        if (isNaN(amount) || amount <= 0) {
+        const sweep = ['all', 'max'].includes(words[1].toLowerCase());
+        if (!sweep && (isNaN(amount) || amount <= 0)) {
           await message.reply("The value for withdrawal must be greater than 0.");
           break;
         }
         await this.handleWithdrawCommand(
           message,
           platformId,
-          amount.toString(),
+          sweep ? 'all' : amount.toString(),
           wAddress
         );
         break;
       case 'link':
-        await this.handleLinkCommand(message, platformId, secret);
+        const keep = words[2]?.toLowerCase();
+        if (secret?.toLowerCase() == 'reset') {
+          await this.handleLinkResetCommand(message, platformId);
+          break;
+        } else if (keep && ![ 'this', 'other' ].includes(keep)) {
+          await message.reply(
+            "You must use the following syntax for linking:\r\n" +
+            "`link [secret code|reset] [this|other]`"
+          );
+          break;
+        }
+        await this.handleLinkCommand(
+          message,
+          platformId,
+          secret,
+          keep == 'this'
+        );
+        break;
+      case 'unlink':
+        await this.handleUnlinkCommand(message, platformId);
         break;
       case 'backup':
         await this.handleBackupCommand(message, platformId)
         break;
+      case 'history':
+        const page = Number(words[1] ?? 1);
+        if (!Number.isInteger(page) || page < 1) {
+          await message.reply("The history page must be a number of 1 or more.");
+          break;
+        }
+        await this.handleHistoryCommand(message, platformId, page);
+        break;
       default:
         message.reply(
           `You can only use the following verbs in my DMs:\r\n\r\n` +
@@ -424,16 +1256,39 @@ implements Platform {
           `**deposit** - Get the address needed to deposit XPI.\r\n` +
           `**withdraw** - Withdraw XPI to an external wallet.\r\n` +
           '**link** - Link to another account/platform\r\n' +
-          `**backup** - Get the seed phrase of your bot wallet\r\n\r\n` +
-          "withdraw command syntax: `withdraw <amount> <external_address>`\r\n" +
+          '**unlink** - Unlink this account from your other accounts\r\n' +
+          `**backup** - Get the seed phrase of your bot wallet\r\n` +
+          `**history** - List your past deposits, withdrawals and gives\r\n\r\n` +
+          "withdraw command syntax: `withdraw <amount|all> <external_address>`\r\n" +
           "link command syntax:\r\n" +
           "```link <secret code> - Link using code from other acocunt\r\n" +
+          "link <secret code> this - Link, keeping this account\r\n" +
+          "link reset - Replace your code with a new one\r\n" +
           "link - Get your code for linking account on another platform```"
         );
         break;
     }
   }
   
+  private _handleButtonInteraction = async (
+    interaction: Interaction
+  ) => {
+    if (!interaction.isButton()) {
+      return;
+    }
+    const match = interaction.customId.match(
+      /^(withdraw|link):(confirm|cancel):(.+)$/
+    );
+    if (!match) {
+      return;
+    }
+    const [ , type, action, id ] = match;
+    const handleAction = type == 'link'
+      ? this.handleLinkAction
+      : this.handleWithdrawAction;
+    await handleAction(interaction, interaction.user.id, action, id);
+  };
+
   private _handleCommandMessage = async (
     interaction: ChatInputCommandInteraction
   ) => {
@@ -496,6 +1351,48 @@ implements Platform {
             giveAmount
           );
           break;
+        case "rain":
+          // must give more than 0 XPI
+          if (xpiAmount <= 0) {
+            await interaction.reply({
+              content: format(BOT.MESSAGE.ERR_AMOUNT_INVALID, xpiAmount),
+              ephemeral: true
+            });
+            break;
+          }
+          const recipients: Array<{ platformId: string, username: string }> = [];
+          for (let i = 1; i <= RAIN_USER_OPTIONS; i++) {
+            const user = options.getUser(`user${i}`);
+            // can't rain on self or bot, or the same user twice
+            if (
+              !user ||
+              user.id == platformId ||
+              user.id == this.clientId ||
+              recipients.find(recipient => recipient.platformId == user.id)
+            ) {
+              continue;
+            }
+            recipients.push({
+              platformId: user.id,
+              username: `${user.username}#${user.discriminator}`
+            });
+          }
+          if (recipients.length < 1) {
+            await interaction.reply({
+              content: BOT.MESSAGE.ERR_RAIN_NO_USERS,
+              ephemeral: true
+            });
+            break;
+          }
+          await this.handleRainCommand(
+            interaction,
+            platformId,
+            fromUsername,
+            recipients,
+            xpiAmount.toString(),
+            options.getBoolean('each') ?? false
+          );
+          break;
         case "balance":
           await this.handleBalanceCommand(interaction, platformId);
           break;
@@ -503,7 +1400,16 @@ implements Platform {
           await this.handleDepositCommand(interaction, platformId);
           break;
         case "withdraw":
-          const outAmount = xpiAmount.toString();
+          const withdrawAll = options.getBoolean('all') ?? false;
+          // must withdraw more than 0 XPI unless withdrawing everything
+          if (!withdrawAll && xpiAmount <= 0) {
+            await interaction.reply({
+              content: BOT.MESSAGE.ERR_AMOUNT_INVALID,
+              ephemeral: true
+            });
+            break;
+          }
+          const outAmount = withdrawAll ? 'all' : xpiAmount.toString();
           const outAddress = options.getString('address');
           await this.handleWithdrawCommand(
             interaction,
@@ -513,12 +1419,38 @@ implements Platform {
           );
           break;
         case 'link':
+          if (options.getBoolean('reset')) {
+            await this.handleLinkResetCommand(interaction, platformId);
+            break;
+          }
           const secret = options.getString('secret') || undefined;
-          await this.handleLinkCommand(interaction, platformId, secret);
+          await this.handleLinkCommand(
+            interaction,
+            platformId,
+            secret,
+            options.getString('keep') == 'this'
+          );
+          break;
+        case 'unlink':
+          await this.handleUnlinkCommand(interaction, platformId);
           break;
         case 'backup':
           await this.handleBackupCommand(interaction, platformId);
           break;
+        case 'history':
+          const page = options.getInteger('page') ?? 1;
+          if (page < 1) {
+            await interaction.reply({
+              content: 'The history page must be 1 or more.',
+              ephemeral: true
+            });
+            break;
+          }
+          await this.handleHistoryCommand(interaction, platformId, page);
+          break;
+        case 'admin':
+          await this.handleAdminCommand(interaction, platformId);
+          break;
         default:
           //This should NEVER happen as we are registering commands directly to the server.
           await interaction.reply({
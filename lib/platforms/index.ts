@@ -28,4 +28,41 @@ export interface Platform {
     amount: string,
     balance: string
   ) => Promise<void>;
+  /**
+   * Send notification to `platformId` when deposit is confirmed in a block
+   */
+  sendDepositConfirmed: (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string
+  ) => Promise<void>;
+  /**
+   * Send notification to `platformId` when deposit tx is dropped from the
+   * network and removed from the balance
+   */
+  sendDepositReverted: (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string
+  ) => Promise<void>;
+  /**
+   * Send notification to `platformId` when an admin approves their queued
+   * withdrawal and it is broadcasted
+   */
+  sendWithdrawalApproved: (
+    platformId: string,
+    txid: string,
+    amount: string
+  ) => Promise<void>;
+  /**
+   * Send notification to `platformId` when an admin rejects their queued
+   * withdrawal
+   */
+  sendWithdrawalRejected: (
+    platformId: string,
+    amount: string,
+    reason: string
+  ) => Promise<void>;
 };
\ No newline at end of file
@@ -2,15 +2,21 @@ import { setTimeout } from "node:timers/promises";
 import { format } from 'node:util';
 import {
   Context,
+  Markup,
   Telegraf,
 } from "telegraf";
 import { Platform } from '.';
 import { BOT } from '../../util/constants';
 import { split } from '../../util';
 import config from '../../config'
-import { Message } from "telegraf/typings/core/types/typegram";
-import { Handler } from "../handler";
+import logger from '../../util/logger';
+import {
+  InlineKeyboardMarkup,
+  Message
+} from "telegraf/typings/core/types/typegram";
+import { Handler, HistoryEntry } from "../handler";
 
+const log = logger.child({ module: 'telegram' });
 const REPLIES_PER_SECOND = 20;
 const parseGive = (
   text: string
@@ -21,6 +27,18 @@ const parseGive = (
     ? parts.slice(index + 1, index + 2).pop()
     : null;
 };
+const parseRain = (
+  text: string
+) => {
+  const parts = split(text);
+  const index = parts.findIndex(part => part.toLowerCase() == '/rain');
+  return index >= 0
+    ? {
+      amount: parts[index + 1],
+      each: parts[index + 2]?.toLowerCase() == 'each'
+    }
+    : null;
+};
 const parseWithdraw = (
   text: string
 ) => {
@@ -36,18 +54,67 @@ const parseLink = (
   const parts = split(text);
   const index = parts.findIndex(part => part.toLowerCase() == '/link');
   return index >= 0
-    ? parts.slice(index + 1, index + 2).pop()
-    : undefined;
+    ? parts.slice(index + 1, index + 3)
+    : [];
 };
 const escape = (
   text: string
 ) => text.replace(/(_)/g, "\\$1");
+const parseHistory = (
+  text: string
+) => {
+  const parts = split(text);
+  const index = parts.findIndex(part => part.toLowerCase() == '/history');
+  return index >= 0
+    ? parts.slice(index + 1, index + 2).pop()
+    : undefined;
+};
+const parseAdmin = (
+  text: string
+) => {
+  const parts = split(text);
+  const index = parts.findIndex(part => part.toLowerCase() == '/admin');
+  return index >= 0
+    ? parts.slice(index + 1).filter(Boolean)
+    : [];
+};
+const formatHistoryEntry = (
+  entry: HistoryEntry
+) => {
+  const date = entry.timestamp.toISOString().slice(0, 16).replace('T', ' ');
+  const counterparty = escape(entry.counterparty || 'unknown user');
+  let text: string;
+  switch (entry.type) {
+    case 'deposit':
+      text = format(BOT.MESSAGE.HISTORY_DEPOSIT, date, entry.amount);
+      break;
+    case 'withdrawal':
+      text = format(BOT.MESSAGE.HISTORY_WITHDRAWAL, date, entry.amount);
+      break;
+    case 'give':
+      text = format(BOT.MESSAGE.HISTORY_GIVE, date, entry.amount, counterparty);
+      break;
+    case 'receive':
+      text = format(
+        BOT.MESSAGE.HISTORY_RECEIVE,
+        date,
+        entry.amount,
+        counterparty
+      );
+      break;
+  }
+  return entry.onChain
+    ? `${text} ([tx](${config.wallet.explorerUrl}/tx/${entry.txid}))`
+    : text;
+};
 
 export class Telegram 
 implements Platform {
   private bot: Telegraf;
   private handler: Handler;
   private lastReplyTime: number;
+  /** `platformId` of users seen by the bot, by lowercase username */
+  private usernames: { [username: string]: number } = {};
 
   constructor(handler: Handler) {
     this.handler = handler;
@@ -56,12 +123,22 @@ implements Platform {
 
   setup = async (apiKey: string) => {
     this.bot = new Telegraf(apiKey);
+    this.bot.use(this.cacheUsername);
     this.bot.command('give', this.handleGroupMessage);
+    this.bot.command('rain', this.handleGroupMessage);
     this.bot.command('balance', this.handleDirectMessage);
     this.bot.command('deposit', this.handleDirectMessage);
     this.bot.command('withdraw', this.handleDirectMessage);
     this.bot.command('link', this.handleDirectMessage);
+    this.bot.command('unlink', this.handleDirectMessage);
     this.bot.command('backup', this.handleDirectMessage);
+    this.bot.command('history', this.handleDirectMessage);
+    this.bot.command('admin', this.handleDirectMessage);
+    this.bot.action(
+      /^withdraw:(confirm|cancel):(.+)$/,
+      this.handleWithdrawAction
+    );
+    this.bot.action(/^link:(confirm|cancel):(.+)$/, this.handleLinkAction);
     this.bot.start(this.handleDirectMessage);
   };
   launch = async () => {
@@ -78,6 +155,7 @@ implements Platform {
     platformOrChatId: string | number,
     msg: string,
     replyToMessageId?: number,
+    replyMarkup?: InlineKeyboardMarkup,
   ) => {
     try {
       await this.bot.telegram.sendMessage(
@@ -85,14 +163,15 @@ implements Platform {
         msg,
         {
           parse_mode: 'Markdown',
-          reply_to_message_id: replyToMessageId
+          reply_to_message_id: replyToMessageId,
+          reply_markup: replyMarkup
         }
       );
     } catch (e: any) {
-      this.handler.log(
-        `telegram`,
-        `${platformOrChatId}: failed to notify user: ${e.message}`
-      );
+      log.warn('failed to notify user', {
+        chatId: platformOrChatId,
+        error: e.message
+      });
     }
   };
 
@@ -119,22 +198,123 @@ implements Platform {
     }
   };
 
-  private handleBalanceCommand = async (
-    platformId: string
+  sendDepositConfirmed = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string,
   ) => {
     try {
-      const balance = await this.handler.processBalanceCommand(
-        'telegram',
-        platformId
+      await setTimeout(this.calcReplyDelay());
+      const msg = format(
+        BOT.MESSAGE.DEPOSIT_CONF,
+        amount,
+        balance,
+        `${config.wallet.explorerUrl}/tx/${txid}`
       );
-      const msg = format(BOT.MESSAGE.BALANCE, balance);
       await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositConfirmed: ${e.message}`);
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  sendDepositReverted = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+    balance: string,
+  ) => {
+    try {
       await setTimeout(this.calcReplyDelay());
+      const msg = format(
+        BOT.MESSAGE.DEPOSIT_REVERT,
+        amount,
+        balance,
+        `${config.wallet.explorerUrl}/tx/${txid}`
+      );
+      await this.notifyUser(platformId, msg);
     } catch (e: any) {
-      this.handler.log(
-        'telegram',
-        `${platformId}: handleBalanceCommand: ${e.message}`
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositReverted: ${e.message}`);
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  sendWithdrawalApproved = async (
+    platformId: string,
+    txid: string,
+    amount: string,
+  ) => {
+    try {
+      await setTimeout(this.calcReplyDelay());
+      const msg = format(
+        BOT.MESSAGE.WITHDRAW_APPROVED,
+        amount,
+        `${config.wallet.explorerUrl}/tx/${txid}`
+      );
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalApproved: ${e.message}`);
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  sendWithdrawalRejected = async (
+    platformId: string,
+    amount: string,
+    reason: string,
+  ) => {
+    try {
+      await setTimeout(this.calcReplyDelay());
+      const msg = format(
+        BOT.MESSAGE.WITHDRAW_REJECTED,
+        amount,
+        escape(reason)
       );
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalRejected: ${e.message}`);
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  private handleBalanceCommand = async (
+    platformId: string
+  ) => {
+    try {
+      const {
+        total,
+        spendable,
+        confirmed,
+        unconfirmed,
+        locked,
+        ledger
+      } = await this.handler.processBalanceCommand('telegram', platformId);
+      const msg = format(
+        BOT.MESSAGE.BALANCE,
+        total,
+        spendable,
+        confirmed,
+        unconfirmed,
+        locked
+      ) + (config.wallet.ledger
+        ? format(BOT.MESSAGE.BALANCE_LEDGER, ledger)
+        : '');
+      await this.notifyUser(platformId, msg);
+      await setTimeout(this.calcReplyDelay());
+    } catch (e: any) {
+      log.error('handleBalanceCommand failed', {
+        platformId,
+        error: e.message
+      });
     } finally {
       this.lastReplyTime = Date.now();
     }
@@ -156,10 +336,10 @@ implements Platform {
       await setTimeout(this.calcReplyDelay());
       await this.notifyUser(platformId, msg);
     } catch (e: any) {
-      this.handler.log(
-        'telegram',
-        `${platformId}: handleDepositCommand: ${e.message}`
-      );
+      log.error('handleDepositCommand failed', {
+        platformId,
+        error: e.message
+      });
     } finally {
       this.lastReplyTime = Date.now();
     }
@@ -175,61 +355,216 @@ implements Platform {
     value: string
   ) => {
     try {
-      const { txid, amount } = await this.handler.processGiveCommand(
+      const result = await this.handler.processGiveCommand(
         'telegram',
         fromId,
         fromUsername,
         toId,
         toUsername,
-        value
+        value,
+        chatId.toString(),
+        `telegram:${chatId}:${replyToMessageId}`
       );
       const fromUsernameEscaped = escape(fromUsername);
+      if (typeof result == 'string') {
+        await setTimeout(this.calcReplyDelay());
+        return await this.notifyUser(
+          chatId,
+          format(BOT.MESSAGE.GIVE_FAIL, fromUsernameEscaped, result),
+          replyToMessageId
+        );
+      }
+      const { txid, amount, onChain } = result;
       const toUsernameEscaped = escape(toUsername);
-      const msg = format(
-        BOT.MESSAGE.GIVE,
-        fromUsernameEscaped,
-        amount,
-        toUsernameEscaped,
-        `${config.wallet.explorerUrl}/tx/${txid}`
-      );
+      const msg = onChain
+        ? format(
+          BOT.MESSAGE.GIVE,
+          fromUsernameEscaped,
+          amount,
+          toUsernameEscaped,
+          `${config.wallet.explorerUrl}/tx/${txid}`
+        )
+        : format(
+          BOT.MESSAGE.GIVE_OFFCHAIN,
+          fromUsernameEscaped,
+          amount,
+          toUsernameEscaped
+        );
       await setTimeout(this.calcReplyDelay());
       await this.notifyUser(chatId, msg, replyToMessageId);
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleGiveCommand failed', {
+        platformId: fromId,
+        error: e.message
+      });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  private handleRainCommand = async (
+    chatId: number,
+    replyToMessageId: number,
+    fromId: string,
+    fromUsername: string,
+    recipients: Array<{ platformId: string, username: string }>,
+    value: string,
+    each: boolean
+  ) => {
+    try {
+      const result = await this.handler.processRainCommand(
         'telegram',
-        `${fromId}: handleGiveCommand: ${e.message}`
+        fromId,
+        fromUsername,
+        recipients,
+        value,
+        each,
+        chatId.toString(),
+        `telegram:${chatId}:${replyToMessageId}`
       );
+      if (typeof result == 'string') {
+        await setTimeout(this.calcReplyDelay());
+        return await this.notifyUser(
+          chatId,
+          format(BOT.MESSAGE.RAIN_FAIL, escape(fromUsername), result),
+          replyToMessageId
+        );
+      }
+      const { txid, amount, usernames, onChain } = result;
+      const toUsernamesEscaped = usernames
+        .map(username => escape(username))
+        .join(', ');
+      const msg = onChain
+        ? format(
+          BOT.MESSAGE.RAIN,
+          escape(fromUsername),
+          amount,
+          toUsernamesEscaped,
+          `${config.wallet.explorerUrl}/tx/${txid}`
+        )
+        : format(
+          BOT.MESSAGE.RAIN_OFFCHAIN,
+          escape(fromUsername),
+          amount,
+          toUsernamesEscaped
+        );
+      await setTimeout(this.calcReplyDelay());
+      await this.notifyUser(chatId, msg, replyToMessageId);
+    } catch (e: any) {
+      log.error('handleRainCommand failed', {
+        platformId: fromId,
+        error: e.message
+      });
     } finally {
       this.lastReplyTime = Date.now();
     }
   };
 
   private handleWithdrawCommand = async (
+    messageId: number,
     platformId: string,
     outAmount: string,
     outAddress: string,
   ) => {
     try {
-      const result = await this.handler.processWithdrawCommand(
+      const result = await this.handler.processWithdrawPreview(
         'telegram',
         platformId,
         outAmount,
-        outAddress
+        outAddress,
+        `telegram:${platformId}:${messageId}`
       );
-      const msg = typeof result == 'string'
-        ? format(BOT.MESSAGE.WITHDRAW_FAIL, result)
-        : format(
-          BOT.MESSAGE.WITHDRAW_OK,
-          result.amount,
-          `${config.wallet.explorerUrl}/tx/${result.txid}`
+      await setTimeout(this.calcReplyDelay());
+      if (typeof result == 'string') {
+        return await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.WITHDRAW_FAIL, result)
+        );
+      } else if ('requestId' in result) {
+        return await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.WITHDRAW_PENDING, result.amount, outAddress)
         );
+      }
+      const msg = format(
+        BOT.MESSAGE.WITHDRAW_PREVIEW,
+        outAddress,
+        result.total,
+        result.fee,
+        result.serviceFee,
+        result.amount,
+        BOT.WITHDRAW_CONFIRM_TIMEOUT / 1000
+      );
+      const keyboard = Markup.inlineKeyboard([
+        Markup.button.callback(
+          'Confirm',
+          `withdraw:confirm:${result.withdrawalId}`
+        ),
+        Markup.button.callback(
+          'Cancel',
+          `withdraw:cancel:${result.withdrawalId}`
+        ),
+      ]);
+      await this.notifyUser(
+        platformId,
+        msg,
+        undefined,
+        keyboard.reply_markup
+      );
+    } catch (e: any) {
+      log.error('handleWithdrawCommand failed', {
+        platformId,
+        error: e.message
+      });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+  /** Confirm or cancel a withdrawal from the buttons of its preview */
+  private handleWithdrawAction = async (
+    ctx: Context
+  ) => {
+    const [ , action, withdrawalId ] = <RegExpExecArray>(<any>ctx).match;
+    const platformId = ctx.from.id.toString();
+    try {
+      await ctx.answerCbQuery();
+      // Remove the buttons so the withdrawal can't be confirmed twice
+      await ctx.editMessageReplyMarkup(undefined);
+      let msg: string;
+      switch (action) {
+        case 'confirm':
+          const result = await this.handler.processWithdrawConfirm(
+            'telegram',
+            platformId,
+            withdrawalId,
+            `telegram:withdraw:${withdrawalId}`
+          );
+          msg = typeof result == 'string'
+            ? format(BOT.MESSAGE.WITHDRAW_FAIL, result)
+            : format(
+              BOT.MESSAGE.WITHDRAW_OK,
+              result.amount,
+              `${config.wallet.explorerUrl}/tx/${result.txid}`
+            );
+          break;
+        case 'cancel':
+          const cancelled = await this.handler.processWithdrawCancel(
+            'telegram',
+            platformId,
+            withdrawalId
+          );
+          msg = typeof cancelled == 'string'
+            ? format(BOT.MESSAGE.WITHDRAW_FAIL, cancelled)
+            : BOT.MESSAGE.WITHDRAW_CANCEL;
+          break;
+      }
       await setTimeout(this.calcReplyDelay());
       await this.notifyUser(platformId, msg);
     } catch (e: any) {
-      this.handler.log(
-        'telegram',
-        `${platformId}: handleWithdrawCommand: ${e.message}`
-      );
+      log.error('handleWithdrawAction failed', {
+        platformId,
+        error: e.message
+      });
     } finally {
       this.lastReplyTime = Date.now();
     }
@@ -238,12 +573,14 @@ implements Platform {
   private handleLinkCommand = async (
     platformId: string,
     secret: string | undefined,
+    keepOwn: boolean,
   ) => {
     try {
       const result = await this.handler.processLinkCommand(
         'telegram',
         platformId,
-        secret
+        secret,
+        keepOwn
       );
       await setTimeout(this.calcReplyDelay());
       if (typeof result == 'string') {
@@ -252,36 +589,391 @@ implements Platform {
           format(BOT.MESSAGE.LINK_FAIL, result)
         );
         throw new Error(result);
+      } else if ('secret' in result) {
+        return await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.LINK, result.secret, BOT.LINK_SECRET_TTL / 60000)
+        );
       }
-      const msg = typeof result.secret == 'string'
-        ? format(BOT.MESSAGE.LINK, result.secret)
-        : BOT.MESSAGE.LINK_OK;
-      await this.notifyUser(platformId, msg);
+      const msg = format(
+        BOT.MESSAGE.LINK_PREVIEW,
+        result.users,
+        result.keepOwn ? 'this account' : 'your other account',
+        result.balance,
+        BOT.LINK_CONFIRM_TIMEOUT / 1000
+      );
+      await this.notifyUser(
+        platformId,
+        msg,
+        undefined,
+        this.linkKeyboard(result.linkId).reply_markup
+      );
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleLinkCommand failed', { platformId, error: e.message });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  private handleLinkResetCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processLinkResetCommand(
         'telegram',
-        `${platformId}: handleLinkCommand: ${e.message}`
+        platformId
+      );
+      await setTimeout(this.calcReplyDelay());
+      if (typeof result == 'string') {
+        await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.LINK_FAIL, result)
+        );
+        throw new Error(result);
+      }
+      await this.notifyUser(
+        platformId,
+        format(BOT.MESSAGE.LINK, result.secret, BOT.LINK_SECRET_TTL / 60000)
       );
+    } catch (e: any) {
+      log.error('handleLinkResetCommand failed', {
+        platformId,
+        error: e.message
+      });
     } finally {
       this.lastReplyTime = Date.now();
     }
   };
 
-  private handleBackupCommand = async (
+  private handleUnlinkCommand = async (
     platformId: string,
   ) => {
     try {
-      const mnemonic = await this.handler.processBackupCommand(
+      const result = await this.handler.processUnlinkCommand(
         'telegram',
         platformId
       );
       await setTimeout(this.calcReplyDelay());
-      await this.notifyUser(platformId, format(BOT.MESSAGE.BACKUP, mnemonic));
+      if (typeof result == 'string') {
+        await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.UNLINK_FAIL, result)
+        );
+        throw new Error(result);
+      }
+      const msg = format(
+        BOT.MESSAGE.UNLINK_PREVIEW,
+        result.balance,
+        result.remaining,
+        BOT.LINK_CONFIRM_TIMEOUT / 1000
+      );
+      await this.notifyUser(
+        platformId,
+        msg,
+        undefined,
+        this.linkKeyboard(result.linkId).reply_markup
+      );
+    } catch (e: any) {
+      log.error('handleUnlinkCommand failed', {
+        platformId,
+        error: e.message
+      });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+  /** Confirm or cancel a link or unlink from the buttons of its preview */
+  private handleLinkAction = async (
+    ctx: Context
+  ) => {
+    const [ , action, linkId ] = <RegExpExecArray>(<any>ctx).match;
+    const platformId = ctx.from.id.toString();
+    try {
+      await ctx.answerCbQuery();
+      // Remove the buttons so the link can't be confirmed twice
+      await ctx.editMessageReplyMarkup(undefined);
+      const result = action == 'confirm'
+        ? await this.handler.processLinkConfirm('telegram', platformId, linkId)
+        : await this.handler.processLinkCancel('telegram', platformId, linkId);
+      let msg: string;
+      if (typeof result == 'string') {
+        msg = format(BOT.MESSAGE.LINK_FAIL, result);
+      } else if (action == 'confirm') {
+        msg = result.type == 'link'
+          ? BOT.MESSAGE.LINK_OK
+          : BOT.MESSAGE.UNLINK_OK;
+      } else {
+        msg = result.type == 'link'
+          ? BOT.MESSAGE.LINK_CANCEL
+          : BOT.MESSAGE.UNLINK_CANCEL;
+      }
+      await setTimeout(this.calcReplyDelay());
+      await this.notifyUser(platformId, msg);
     } catch (e: any) {
-      this.handler.log(
+      log.error('handleLinkAction failed', {
+        platformId,
+        error: e.message
+      });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+  /** Buttons to confirm or cancel the link or unlink of `linkId` */
+  private linkKeyboard = (
+    linkId: string
+  ) => Markup.inlineKeyboard([
+    Markup.button.callback('Confirm', `link:confirm:${linkId}`),
+    Markup.button.callback('Cancel', `link:cancel:${linkId}`),
+  ]);
+
+  private handleHistoryCommand = async (
+    platformId: string,
+    page: number,
+  ) => {
+    try {
+      const result = await this.handler.processHistoryCommand(
         'telegram',
-        `${platformId}: handleBackupCommand: ${e.message}`
+        platformId,
+        page
       );
+      const msg = result.entries.length > 0
+        ? format(
+          BOT.MESSAGE.HISTORY,
+          result.page,
+          result.pages,
+          result.entries.map(formatHistoryEntry).join('\r\n')
+        )
+        : BOT.MESSAGE.HISTORY_EMPTY;
+      await setTimeout(this.calcReplyDelay());
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleHistoryCommand failed', {
+        platformId,
+        error: e.message
+      });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  private handleBackupCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processBackupCommand(
+        'telegram',
+        platformId
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.BACKUP_FAIL, result)
+        : format(BOT.MESSAGE.BACKUP, result.mnemonic);
+      await setTimeout(this.calcReplyDelay());
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleBackupCommand failed', { platformId, error: e.message });
+    } finally {
+      this.lastReplyTime = Date.now();
+    }
+  };
+
+  /** Admin commands are replied in plain text; IDs and errors are not escaped */
+  private handleAdminCommand = async (
+    platformId: string,
+    args: string[],
+  ) => {
+    const [ command, targetPlatform, targetId ] = args;
+    const subcommand = command?.toLowerCase();
+    let msg: string;
+    try {
+      if (!config.admins.telegram.includes(platformId)) {
+        msg = BOT.MESSAGE.ERR_NOT_ADMIN;
+      } else if (
+        ['lookup', 'freeze', 'unfreeze', 'resync'].includes(subcommand) &&
+        (!targetPlatform || !targetId)
+      ) {
+        msg = BOT.MESSAGE.ADMIN_USAGE;
+      } else if (['approve', 'reject'].includes(subcommand) && !args[1]) {
+        msg = BOT.MESSAGE.ADMIN_USAGE;
+      } else {
+        switch (subcommand) {
+          case 'totals': {
+            const result = await this.handler.processAdminTotalsCommand(
+              'telegram',
+              platformId
+            );
+            msg = format(
+              BOT.MESSAGE.ADMIN_TOTALS,
+              result.utxos,
+              result.ledgerCredit,
+              result.ledgerDebt,
+              result.ledgerTotal
+            );
+            break;
+          }
+          case 'reserves': {
+            const result = await this.handler.processAdminReservesCommand(
+              'telegram',
+              platformId
+            );
+            const flagged = result.accounts
+              .filter(account => account.status != 'ok')
+              .slice(0, BOT.ADMIN_RESERVES_LIMIT)
+              .map(account => format(
+                BOT.MESSAGE.ADMIN_RESERVES_ACCOUNT,
+                account.accountId,
+                account.status,
+                account.difference
+              ));
+            msg = format(
+              BOT.MESSAGE.ADMIN_RESERVES,
+              result.solvent ? 'yes' : 'no',
+              result.expected,
+              result.utxos,
+              result.difference,
+              result.stale,
+              result.flagged
+            );
+            if (flagged.length > 0) {
+              msg += `\r\n\r\n${flagged.join('\r\n')}`;
+            }
+            break;
+          }
+          case 'lookup': {
+            const result = await this.handler.processAdminLookupCommand(
+              'telegram',
+              platformId,
+              targetPlatform.toLowerCase(),
+              targetId
+            );
+            msg = typeof result == 'string'
+              ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+              : format(
+                BOT.MESSAGE.ADMIN_LOOKUP,
+                result.accountId,
+                result.userId,
+                result.frozen ? 'yes' : 'no',
+                result.users.join(', '),
+                result.addresses.join(', '),
+                result.balance
+              );
+            break;
+          }
+          case 'freeze':
+          case 'unfreeze': {
+            const frozen = subcommand == 'freeze';
+            const result = await this.handler.processAdminFreezeCommand(
+              'telegram',
+              platformId,
+              targetPlatform.toLowerCase(),
+              targetId,
+              frozen
+            );
+            msg = typeof result == 'string'
+              ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+              : format(
+                BOT.MESSAGE.ADMIN_FREEZE,
+                result.accountId,
+                frozen ? 'frozen' : 'unfrozen'
+              );
+            break;
+          }
+          case 'resync': {
+            const result = await this.handler.processAdminResyncCommand(
+              'telegram',
+              platformId,
+              targetPlatform.toLowerCase(),
+              targetId
+            );
+            msg = typeof result == 'string'
+              ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+              : format(
+                BOT.MESSAGE.ADMIN_RESYNC,
+                result.userId,
+                result.added,
+                result.removed
+              );
+            break;
+          }
+          case 'failures': {
+            const failures = await this.handler.processAdminFailuresCommand(
+              'telegram',
+              platformId
+            );
+            msg = failures.length > 0
+              ? format(
+                BOT.MESSAGE.ADMIN_FAILURES,
+                failures.map(failure => format(
+                  BOT.MESSAGE.ADMIN_FAILURE,
+                  failure.timestamp.toISOString(),
+                  failure.command,
+                  failure.txid,
+                  failure.userId,
+                  failure.error
+                )).join('\r\n')
+              )
+              : BOT.MESSAGE.ADMIN_FAILURES_NONE;
+            break;
+          }
+          case 'pending': {
+            const requests = await this.handler.processAdminPendingCommand(
+              'telegram',
+              platformId
+            );
+            msg = requests.length > 0
+              ? format(
+                BOT.MESSAGE.ADMIN_PENDING,
+                requests.map(request => format(
+                  BOT.MESSAGE.ADMIN_PENDING_ENTRY,
+                  request.requestId,
+                  request.amount,
+                  request.user,
+                  request.outAddress,
+                  request.timestamp.toISOString()
+                )).join('\r\n')
+              )
+              : BOT.MESSAGE.ADMIN_PENDING_NONE;
+            break;
+          }
+          case 'approve': {
+            const result = await this.handler.processAdminApproveCommand(
+              'telegram',
+              platformId,
+              args[1]
+            );
+            msg = typeof result == 'string'
+              ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+              : format(
+                BOT.MESSAGE.ADMIN_APPROVE,
+                result.amount,
+                `${config.wallet.explorerUrl}/tx/${result.txid}`
+              );
+            break;
+          }
+          case 'reject': {
+            const result = await this.handler.processAdminRejectCommand(
+              'telegram',
+              platformId,
+              args[1],
+              args.slice(2).join(' ') || undefined
+            );
+            msg = typeof result == 'string'
+              ? format(BOT.MESSAGE.ADMIN_FAIL, result)
+              : format(BOT.MESSAGE.ADMIN_REJECT, result.requestId);
+            break;
+          }
+          default:
+            msg = BOT.MESSAGE.ADMIN_USAGE;
+        }
+      }
+    } catch (e: any) {
+      log.error('handleAdminCommand failed', { platformId, error: e.message });
+      msg = format(BOT.MESSAGE.ADMIN_FAIL, e.message);
+    }
+    try {
+      await setTimeout(this.calcReplyDelay());
+      await this.bot.telegram.sendMessage(platformId, msg);
+    } catch (e: any) {
+      log.error('handleAdminCommand failed', { platformId, error: e.message });
     } finally {
       this.lastReplyTime = Date.now();
     }
@@ -307,17 +999,19 @@ implements Platform {
           const [ outAmount, outAddress ] = parseWithdraw(messageText);
           if (!outAmount || !outAddress) {
             return ctx.sendMessage(
-              `Syntax: \`/withdraw amount address\`\r\n`,
+              `Syntax: \`/withdraw amount|all address\`\r\n`,
               { parse_mode: 'Markdown' }
             );
           }
-          if (Number(outAmount) <= 0 || isNaN(Number(outAmount))) {
+          const sweep = ['all', 'max'].includes(outAmount.toLowerCase());
+          if (!sweep && (Number(outAmount) <= 0 || isNaN(Number(outAmount)))) {
             return ctx.sendMessage(
               `Invalid amount specified.`,
               { parse_mode: 'Markdown' }
             );
           }
           return this.handleWithdrawCommand(
+            ctx.message.message_id,
             platformId,
             outAmount,
             outAddress
@@ -325,10 +1019,41 @@ implements Platform {
         case '/balance':
           return this.handleBalanceCommand(platformId);
         case '/link':
-          const secret = parseLink(messageText);
-          return this.handleLinkCommand(platformId, secret);
+          const [ secret, keep ] = parseLink(messageText);
+          if (secret?.toLowerCase() == 'reset') {
+            return this.handleLinkResetCommand(platformId);
+          } else if (
+            keep &&
+            ![ 'this', 'other' ].includes(keep.toLowerCase())
+          ) {
+            return ctx.sendMessage(
+              `Syntax: \`/link [secret|reset] [this|other]\`\r\n`,
+              { parse_mode: 'Markdown' }
+            );
+          }
+          return this.handleLinkCommand(
+            platformId,
+            secret,
+            keep?.toLowerCase() == 'this'
+          );
+        case '/unlink':
+          return this.handleUnlinkCommand(platformId);
         case '/backup':
           return this.handleBackupCommand(platformId);
+        case '/history':
+          const page = Number(parseHistory(messageText) ?? 1);
+          if (!Number.isInteger(page) || page < 1) {
+            return ctx.sendMessage(
+              `Syntax: \`/history [page]\`\r\n`,
+              { parse_mode: 'Markdown' }
+            );
+          }
+          return this.handleHistoryCommand(platformId, page);
+        case '/admin':
+          return this.handleAdminCommand(
+            platformId,
+            parseAdmin(messageText)
+          );
         case '/start':
           return ctx.sendMessage(
             `Welcome to my home! ` +
@@ -383,7 +1108,6 @@ implements Platform {
               { reply_to_message_id: replyToMessageId }
             )
           }
-          const messageText = <string>(<any>ctx.message).text;
           const amount = parseGive(messageText);
           const amountInt = Number(amount);
           if (isNaN(amountInt) || amountInt <= 0) {
@@ -401,11 +1125,88 @@ implements Platform {
             toUsername,
             amount
           );
+        case '/rain':
+          const rain = parseRain(messageText);
+          if (isNaN(Number(rain.amount)) || Number(rain.amount) <= 0) {
+            return await ctx.sendMessage(
+              `Syntax: \`/rain amount [each] @user1 @user2 ...\``,
+              {
+                parse_mode: 'Markdown',
+                reply_to_message_id: replyToMessageId
+              }
+            );
+          }
+          const { recipients, unknown } = this.parseMentions(ctx);
+          if (unknown.length > 0) {
+            return await ctx.sendMessage(
+              format(BOT.MESSAGE.ERR_RAIN_UNKNOWN_USERS, unknown.join(', ')),
+              { reply_to_message_id: replyToMessageId }
+            );
+          }
+          const rainRecipients = recipients.filter(recipient => {
+            return recipient.platformId != fromId.toString()
+              && recipient.platformId != ctx.botInfo.id.toString();
+          });
+          if (rainRecipients.length < 1) {
+            return await ctx.sendMessage(
+              BOT.MESSAGE.ERR_RAIN_NO_USERS,
+              { reply_to_message_id: replyToMessageId }
+            );
+          }
+          return this.handleRainCommand(
+            chatId,
+            replyToMessageId,
+            fromId.toString(),
+            fromUsername,
+            rainRecipients,
+            rain.amount,
+            rain.each
+          );
       }
     } catch (e: any) {
       throw new Error(`_handleGroupMessage: ${e.message}`);
     }
   };
+  /** Remember the `platformId` of every user who sends the bot an update */
+  private cacheUsername = async (
+    ctx: Context,
+    next: () => Promise<void>
+  ) => {
+    if (ctx.from?.username) {
+      this.usernames[ctx.from.username.toLowerCase()] = ctx.from.id;
+    }
+    return next();
+  };
+  /**
+   * Resolve the users mentioned in the message  
+   * `@username` mentions can only be resolved for users the bot has seen
+   */
+  private parseMentions = (
+    ctx: Context
+  ) => {
+    const recipients: Array<{ platformId: string, username: string }> = [];
+    const unknown: string[] = [];
+    const text = <string>(<any>ctx.message).text;
+    const entities = (<Message.TextMessage>ctx.message).entities || [];
+    for (const entity of entities) {
+      switch (entity.type) {
+        case 'text_mention':
+          recipients.push({
+            platformId: entity.user.id.toString(),
+            username: entity.user.username || entity.user.first_name
+          });
+          break;
+        case 'mention':
+          const username = text.substr(entity.offset + 1, entity.length - 1);
+          const platformId = this.usernames[username.toLowerCase()];
+          platformId
+            ? recipients.push({ platformId: platformId.toString(), username })
+            : unknown.push(`@${username}`);
+          break;
+      }
+    }
+    return { recipients, unknown };
+  };
 
   private calcReplyDelay = () => {
     const now = Date.now();
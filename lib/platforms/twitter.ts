@@ -1,59 +1,803 @@
-import { EventEmitter } from 'stream';
+import {
+  TweetV2,
+  TwitterApi,
+  UserV2,
+} from 'twitter-api-v2';
+import { format } from 'node:util';
 import { Platform } from '.';
+import { BOT } from '../../util/constants';
+import { split } from '../../util';
+import config from '../../config';
+import logger from '../../util/logger';
+import { Handler } from '../handler';
 
-export type TwitterMessage = {
+const log = logger.child({ module: 'twitter' });
+/** How often to poll the API for new mentions and DMs, in milliseconds */
+const POLL_INTERVAL = 15000;
+/** Number of DM events to fetch per poll */
+const DM_EVENTS_PER_POLL = 50;
+/** Maximum mentions or DM events fetched to catch up, e.g. after a restart */
+const MAX_EVENTS_PER_POLL = 1000;
+/** Names of the saved poll cursors */
+const MENTIONS_CURSOR = 'twitter:mentions';
+const DMS_CURSOR = 'twitter:dms';
 
+/** Direct message sent to the bot */
+export type TwitterDirectMessage = {
+  id: string,
+  senderId: string,
+  text: string
 };
 
+/**
+ * Subset of the Twitter API used by the bot
+ * Inject a stub implementation to run the bot against a local API
+ */
+export interface TwitterClient {
+  /** Get the user ID of the authenticated bot account */
+  getBotId: () => Promise<string>;
+  /** Get mentions of `userId` newer than `sinceId`, with author/reply users */
+  getMentions: (
+    userId: string,
+    sinceId?: string
+  ) => Promise<{ tweets: TweetV2[], users: UserV2[] }>;
+  /** Get direct messages back to `sinceId` or the most recent, newest first */
+  getDirectMessages: (sinceId?: string) => Promise<TwitterDirectMessage[]>;
+  reply: (text: string, tweetId: string) => Promise<void>;
+  sendDirectMessage: (userId: string, text: string) => Promise<void>;
+};
+
+/** `TwitterClient` backed by `twitter-api-v2` with OAuth 1.0a user context */
+class TwitterApiClient
+implements TwitterClient {
+  private api: TwitterApi;
+
+  constructor(apiKey: string) {
+    this.api = new TwitterApi({
+      appKey: apiKey,
+      appSecret: config.twitter.apiSecret,
+      accessToken: config.twitter.accessToken,
+      accessSecret: config.twitter.accessSecret
+    });
+  };
+
+  getBotId = async () => {
+    const { data } = await this.api.v2.me();
+    return data.id;
+  };
+  getMentions = async (
+    userId: string,
+    sinceId?: string
+  ) => {
+    const timeline = await this.api.v2.userMentionTimeline(userId, {
+      ...(sinceId && { since_id: sinceId }),
+      expansions: ['author_id', 'in_reply_to_user_id'],
+      'tweet.fields': ['author_id', 'in_reply_to_user_id'],
+      'user.fields': ['username'],
+      max_results: 100
+    });
+    // Catch up on every mention since `sinceId`, not only the first page
+    if (sinceId) {
+      await timeline.fetchLast(MAX_EVENTS_PER_POLL);
+    }
+    return {
+      tweets: timeline.tweets,
+      users: timeline.includes.users
+    };
+  };
+  getDirectMessages = async (
+    sinceId?: string
+  ) => {
+    const timeline = await this.api.v2.listDmEvents({
+      event_types: 'MessageCreate',
+      'dm_event.fields': ['id', 'event_type', 'text', 'sender_id'],
+      max_results: DM_EVENTS_PER_POLL
+    });
+    // The DM events endpoint has no `since_id`; page back to `sinceId`
+    while (
+      sinceId &&
+      !timeline.done &&
+      timeline.events.length < MAX_EVENTS_PER_POLL &&
+      timeline.events.every(event => isNewerId(event.id, sinceId))
+    ) {
+      await timeline.fetchNext();
+    }
+    return timeline.events
+      .filter(event => event.event_type == 'MessageCreate')
+      .map(event => ({
+        id: event.id,
+        senderId: event.sender_id,
+        text: (<{ text: string }>event).text
+      }));
+  };
+  reply = async (
+    text: string,
+    tweetId: string
+  ) => {
+    await this.api.v2.reply(text, tweetId);
+  };
+  sendDirectMessage = async (
+    userId: string,
+    text: string
+  ) => {
+    await this.api.v2.sendDmToParticipant(userId, { text });
+  };
+};
+
+const parseGive = (
+  text: string
+) => {
+  const parts = split(text);
+  const index = parts.findIndex(part => part.toLowerCase() == 'give');
+  return index >= 0
+    ? parts.slice(index + 1, index + 2).pop()
+    : null;
+};
+/** Compare Twitter snowflake IDs, which exceed `Number` precision */
+const isNewerId = (
+  id: string,
+  thanId: string | undefined
+) => {
+  if (!thanId) {
+    return true;
+  }
+  return id.length == thanId.length
+    ? id > thanId
+    : id.length > thanId.length;
+};
+const newestId = (
+  ids: string[]
+) => ids.reduce<string>(
+  (newest, id) => isNewerId(id, newest) ? id : newest,
+  undefined
+);
+
 export class Twitter
-extends EventEmitter
 implements Platform {
-  setup = async () => {};
-  launch = async () => {};
-  stop = async () => {};
-  getBotId: () => string;
-  sendBalanceReply: (platformId: string, balance: string) => Promise<void>;
-  sendDepositReply: (platformId: string, address: string) => Promise<void>;
-  sendDepositReceived: (
+  private handler: Handler;
+  private client: TwitterClient;
+  private botId: string;
+  /** Newest mention/DM event processed; older ones are ignored */
+  private lastMentionId: string;
+  private lastDmEventId: string;
+  private polling = false;
+  private pollInterval: NodeJS.Timeout;
+
+  constructor(
+    handler: Handler,
+    client?: TwitterClient
+  ) {
+    this.handler = handler;
+    this.client = client;
+  };
+  /**
+   * Instantiate the bot with API key. Also set up event handlers.
+   * @param key - API key, as String
+   */
+  setup = async (apiKey: string) => {
+    try {
+      this.client = this.client || new TwitterApiClient(apiKey);
+      this.botId = await this.client.getBotId();
+    } catch (e: any) {
+      throw new Error(`setup: ${e.message}`);
+    }
+  };
+  /**
+   * Activate the bot  
+   * Polling resumes from the saved cursors, so mentions and DMs sent while the
+   * bot was offline are processed; the first launch skips the older ones
+   */
+  launch = async () => {
+    this.lastMentionId = await this.handler.getPollCursor(MENTIONS_CURSOR);
+    if (!this.lastMentionId) {
+      const { tweets } = await this.client.getMentions(this.botId);
+      this.lastMentionId = newestId(tweets.map(tweet => tweet.id));
+      await this._saveCursor(MENTIONS_CURSOR, this.lastMentionId);
+    }
+    this.lastDmEventId = await this.handler.getPollCursor(DMS_CURSOR);
+    if (!this.lastDmEventId) {
+      const messages = await this.client.getDirectMessages();
+      this.lastDmEventId = newestId(messages.map(message => message.id));
+      await this._saveCursor(DMS_CURSOR, this.lastDmEventId);
+    }
+    this.pollInterval = setInterval(this._poll, POLL_INTERVAL);
+  };
+  /** Deactivate the bot */
+  stop = async () => {
+    clearInterval(this.pollInterval);
+  };
+  getBotId = () => this.botId;
+  notifyUser = async (
+    platformId: string,
+    msg: string
+  ) => {
+    try {
+      await this.client.sendDirectMessage(platformId, msg);
+    } catch (e: any) {
+      log.warn('failed to notify user', { platformId, error: e.message });
+    }
+  };
+  replyToTweet = async (
+    tweetId: string,
+    msg: string
+  ) => {
+    try {
+      await this.client.reply(msg, tweetId);
+    } catch (e: any) {
+      log.warn('failed to reply to tweet', { tweetId, error: e.message });
+    }
+  };
+
+  sendDepositReceived = async (
     platformId: string,
     txid: string,
     amount: string,
     balance: string,
-  ) => Promise<void>;
-  sendDepositConfirmed: (
+  ) => {
+    try {
+      await this.client.sendDirectMessage(
+        platformId,
+        `I received your deposit of ${amount} XPI. ` +
+        `Your balance is now ${balance} XPI.\r\n\r\n` +
+        `${config.wallet.explorerUrl}/tx/${txid}`
+      );
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositReceived: ${e.message}`);
+    }
+  };
+
+  sendDepositConfirmed = async (
     platformId: string,
     txid: string,
     amount: string,
-    balance: string
-  ) => Promise<void>;
-  sendGiveReply: (
-    chatId: string,
-    replyToMessageId: number,
-    fromUsername: string,
-    toUsername: string,
+    balance: string,
+  ) => {
+    try {
+      await this.client.sendDirectMessage(
+        platformId,
+        `Your deposit of ${amount} XPI has been confirmed! ` +
+        `Your balance is now ${balance} XPI.\r\n\r\n` +
+        `${config.wallet.explorerUrl}/tx/${txid}`
+      );
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositConfirmed: ${e.message}`);
+    }
+  };
+
+  sendDepositReverted = async (
+    platformId: string,
     txid: string,
     amount: string,
-  ) => Promise<void>;
-  sendWithdrawReply: (
+    balance: string,
+  ) => {
+    try {
+      await this.client.sendDirectMessage(
+        platformId,
+        `Your deposit of ${amount} XPI was dropped by the network and has ` +
+        `been removed from your balance. Your balance is now ${balance} XPI.` +
+        `\r\n\r\n${config.wallet.explorerUrl}/tx/${txid}`
+      );
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendDepositReverted: ${e.message}`);
+    }
+  };
+
+  sendWithdrawalApproved = async (
     platformId: string,
-    {
-      txid,
-      amount,
-      error
-    }: {
-      txid?: string,
-      amount?: string,
-      error?: string
+    txid: string,
+    amount: string,
+  ) => {
+    try {
+      await this.client.sendDirectMessage(
+        platformId,
+        `Your withdrawal of ${amount} XPI has been approved and sent!` +
+        `\r\n\r\n${config.wallet.explorerUrl}/tx/${txid}`
+      );
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalApproved: ${e.message}`);
     }
-  ) => Promise<void>;
-  sendLinkReply = async (
+  };
+
+  sendWithdrawalRejected = async (
     platformId: string,
-    { error, secret }: { error?: string, secret?: string },
+    amount: string,
+    reason: string,
   ) => {
+    try {
+      await this.client.sendDirectMessage(
+        platformId,
+        format(BOT.MESSAGE.WITHDRAW_REJECTED, amount, reason)
+      );
+    } catch (e: any) {
+      // error is logged in lotusbot.ts
+      throw new Error(`sendWithdrawalRejected: ${e.message}`);
+    }
+  };
+
+  private handleBalanceCommand = async (
+    platformId: string
+  ) => {
+    try {
+      const {
+        total,
+        spendable,
+        confirmed,
+        unconfirmed,
+        locked,
+        ledger
+      } = await this.handler.processBalanceCommand('twitter', platformId);
+      await this.notifyUser(
+        platformId,
+        format(
+          BOT.MESSAGE.BALANCE,
+          total,
+          spendable,
+          confirmed,
+          unconfirmed,
+          locked
+        ) + (config.wallet.ledger
+          ? format(BOT.MESSAGE.BALANCE_LEDGER, ledger)
+          : '')
+      );
+    } catch (e: any) {
+      log.error('handleBalanceCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
 
+  private handleDepositCommand = async (
+    platformId: string
+  ) => {
+    try {
+      const address = await this.handler.processDepositCommand(
+        'twitter',
+        platformId
+      );
+      await this.notifyUser(
+        platformId,
+        `Send Lotus here to fund your account: ${address}\r\n\r\n` +
+        `${config.wallet.explorerUrl}/address/${address}`
+      );
+    } catch (e: any) {
+      log.error('handleDepositCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
   };
-  sendBackupReply: (
+
+  private handleGiveCommand = async (
+    tweetId: string,
+    fromId: string,
+    fromUsername: string,
+    toId: string,
+    toUsername: string,
+    value: string
+  ) => {
+    try {
+      const result = await this.handler.processGiveCommand(
+        'twitter',
+        fromId,
+        fromUsername,
+        toId,
+        toUsername,
+        value,
+        undefined,
+        `twitter:${tweetId}`
+      );
+      if (typeof result == 'string') {
+        return await this.replyToTweet(
+          tweetId,
+          format(BOT.MESSAGE.GIVE_FAIL, `@${fromUsername}`, result)
+        );
+      }
+      const { txid, amount, onChain } = result;
+      await this.replyToTweet(
+        tweetId,
+        `@${fromUsername}, you have given ${amount} XPI to @${toUsername}! 🪷` +
+        (onChain ? `\r\n\r\n${config.wallet.explorerUrl}/tx/${txid}` : '')
+      );
+    } catch (e: any) {
+      log.error('handleGiveCommand failed', {
+        platformId: fromId,
+        error: e.message
+      });
+    }
+  };
+
+  private handleWithdrawCommand = async (
+    messageId: string,
+    platformId: string,
+    outAmount: string,
+    outAddress: string,
+  ) => {
+    try {
+      const result = await this.handler.processWithdrawPreview(
+        'twitter',
+        platformId,
+        outAmount,
+        outAddress,
+        `twitter:${messageId}`
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.WITHDRAW_FAIL, result)
+        : 'requestId' in result
+        ? format(BOT.MESSAGE.WITHDRAW_PENDING, result.amount, outAddress)
+        : format(
+          BOT.MESSAGE.WITHDRAW_PREVIEW,
+          outAddress,
+          result.total,
+          result.fee,
+          result.serviceFee,
+          result.amount,
+          BOT.WITHDRAW_CONFIRM_TIMEOUT / 1000
+        ) + `\r\n\r\nReply with "confirm" or "cancel".`;
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleWithdrawCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Confirm the user's pending withdrawal */
+  private handleConfirmCommand = async (
+    messageId: string,
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processWithdrawConfirm(
+        'twitter',
+        platformId,
+        undefined,
+        `twitter:${messageId}`
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.WITHDRAW_FAIL, result)
+        : `Your withdrawal of ${result.amount} XPI was successful!\r\n\r\n` +
+          `${config.wallet.explorerUrl}/tx/${result.txid}`;
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleConfirmCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Cancel the user's pending withdrawal */
+  private handleCancelCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processWithdrawCancel(
+        'twitter',
+        platformId
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.WITHDRAW_FAIL, result)
+        : BOT.MESSAGE.WITHDRAW_CANCEL;
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleCancelCommand failed', { platformId, error: e.message });
+    }
+  };
+
+  private handleLinkCommand = async (
+    platformId: string,
+    secret: string | undefined,
+    keepOwn: boolean,
+  ) => {
+    try {
+      const result = await this.handler.processLinkCommand(
+        'twitter',
+        platformId,
+        secret,
+        keepOwn
+      );
+      if (typeof result == 'string') {
+        await this.notifyUser(
+          platformId,
+          format(BOT.MESSAGE.LINK_FAIL, result)
+        );
+        throw new Error(result);
+      }
+      const msg = 'secret' in result
+        ? format(BOT.MESSAGE.LINK, result.secret, BOT.LINK_SECRET_TTL / 60000)
+        : format(
+          BOT.MESSAGE.LINK_PREVIEW,
+          result.users,
+          result.keepOwn ? 'this account' : 'your other account',
+          result.balance,
+          BOT.LINK_CONFIRM_TIMEOUT / 1000
+        ) + `\r\n\r\nReply with "link confirm" or "link cancel".`;
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleLinkCommand failed', { platformId, error: e.message });
+    }
+  };
+
+  private handleLinkResetCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processLinkResetCommand(
+        'twitter',
+        platformId
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.LINK_FAIL, result)
+        : format(BOT.MESSAGE.LINK, result.secret, BOT.LINK_SECRET_TTL / 60000);
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleLinkResetCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+
+  private handleUnlinkCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processUnlinkCommand(
+        'twitter',
+        platformId
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.UNLINK_FAIL, result)
+        : format(
+          BOT.MESSAGE.UNLINK_PREVIEW,
+          result.balance,
+          result.remaining,
+          BOT.LINK_CONFIRM_TIMEOUT / 1000
+        ) + `\r\n\r\nReply with "unlink confirm" or "unlink cancel".`;
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleUnlinkCommand failed', {
+        platformId,
+        error: e.message
+      });
+    }
+  };
+  /** Confirm or cancel the user's pending link or unlink */
+  private handleLinkAction = async (
     platformId: string,
-    mnemonic: string,
-  ) => Promise<void>;
+    action: string,
+  ) => {
+    try {
+      const result = action == 'confirm'
+        ? await this.handler.processLinkConfirm('twitter', platformId)
+        : await this.handler.processLinkCancel('twitter', platformId);
+      let msg: string;
+      if (typeof result == 'string') {
+        msg = format(BOT.MESSAGE.LINK_FAIL, result);
+      } else if (action == 'confirm') {
+        msg = result.type == 'link'
+          ? BOT.MESSAGE.LINK_OK
+          : BOT.MESSAGE.UNLINK_OK;
+      } else {
+        msg = result.type == 'link'
+          ? BOT.MESSAGE.LINK_CANCEL
+          : BOT.MESSAGE.UNLINK_CANCEL;
+      }
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleLinkAction failed', { platformId, error: e.message });
+    }
+  };
+
+  private handleBackupCommand = async (
+    platformId: string,
+  ) => {
+    try {
+      const result = await this.handler.processBackupCommand(
+        'twitter',
+        platformId
+      );
+      const msg = typeof result == 'string'
+        ? format(BOT.MESSAGE.BACKUP_FAIL, result)
+        : format(BOT.MESSAGE.BACKUP, result.mnemonic);
+      await this.notifyUser(platformId, msg);
+    } catch (e: any) {
+      log.error('handleBackupCommand failed', { platformId, error: e.message });
+    }
+  };
+  /** Fetch and process new mentions and DMs; skipped if still processing */
+  private _poll = async () => {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await this._pollMentions();
+      await this._pollDirectMessages();
+    } catch (e: any) {
+      log.error('_poll failed', { error: e.message });
+    } finally {
+      this.polling = false;
+    }
+  };
+
+  private _pollMentions = async () => {
+    try {
+      const { tweets, users } = await this.client.getMentions(
+        this.botId,
+        this.lastMentionId
+      );
+      // process oldest mentions first
+      const newTweets = tweets
+        .filter(tweet => isNewerId(tweet.id, this.lastMentionId))
+        .reverse();
+      // A mention repeated after a restart is caught by its idempotency key
+      for (const tweet of newTweets) {
+        await this._handleMention(tweet, users);
+        this.lastMentionId = tweet.id;
+        await this._saveCursor(MENTIONS_CURSOR, tweet.id);
+      }
+    } catch (e: any) {
+      throw new Error(`_pollMentions: ${e.message}`);
+    }
+  };
+
+  private _pollDirectMessages = async () => {
+    try {
+      const messages = await this.client.getDirectMessages(
+        this.lastDmEventId
+      );
+      // process oldest DMs first
+      const newMessages = messages
+        .filter(message => isNewerId(message.id, this.lastDmEventId))
+        .reverse();
+      for (const message of newMessages) {
+        await this._handleDirectMessage(
+          message.id,
+          message.senderId,
+          message.text
+        );
+        this.lastDmEventId = message.id;
+        await this._saveCursor(DMS_CURSOR, message.id);
+      }
+    } catch (e: any) {
+      throw new Error(`_pollDirectMessages: ${e.message}`);
+    }
+  };
+  /** Save the poll cursor `name`, unless there is nothing to resume from */
+  private _saveCursor = async (
+    name: string,
+    value: string | undefined
+  ) => {
+    if (value) {
+      await this.handler.savePollCursor(name, value);
+    }
+  };
+  /** Process `@bot give <amount>` sent in reply to another user's tweet */
+  private _handleMention = async (
+    tweet: TweetV2,
+    users: UserV2[]
+  ) => {
+    const {
+      id: tweetId,
+      author_id: fromId,
+      in_reply_to_user_id: toId,
+      text
+    } = tweet;
+    if (fromId == this.botId) {
+      return;
+    }
+    const amount = parseGive(text);
+    if (amount === null) {
+      return;
+    }
+    if (!toId || fromId == toId) {
+      return await this.replyToTweet(
+        tweetId,
+        BOT.MESSAGE.ERR_GIVE_MUST_REPLY_TO_USER
+      );
+    }
+    if (toId == this.botId) {
+      return await this.replyToTweet(tweetId, BOT.MESSAGE.ERR_GIVE_TO_BOT);
+    }
+    const amountInt = Number(amount);
+    if (isNaN(amountInt) || amountInt <= 0) {
+      return await this.replyToTweet(tweetId, BOT.MESSAGE.ERR_AMOUNT_INVALID);
+    }
+    const fromUsername = users.find(user => user.id == fromId)?.username;
+    const toUsername = users.find(user => user.id == toId)?.username;
+    await this.handleGiveCommand(
+      tweetId,
+      fromId,
+      fromUsername || fromId,
+      toId,
+      toUsername || toId,
+      amount
+    );
+  };
+
+  private _handleDirectMessage = async (
+    messageId: string,
+    platformId: string,
+    text: string
+  ) => {
+    if (platformId == this.botId) {
+      return;
+    }
+    const words = text.trim().split(/\s+/);
+    const command = words[0].toLowerCase();
+    switch (command) {
+      case 'balance':
+        return await this.handleBalanceCommand(platformId);
+      case 'deposit':
+        return await this.handleDepositCommand(platformId);
+      case 'withdraw':
+        const [ outAmount, outAddress ] = words.slice(1, 3);
+        if (!outAmount || !outAddress) {
+          return await this.notifyUser(
+            platformId,
+            `Syntax: withdraw <amount|all> <external_address>`
+          );
+        }
+        const sweep = ['all', 'max'].includes(outAmount.toLowerCase());
+        if (!sweep && (Number(outAmount) <= 0 || isNaN(Number(outAmount)))) {
+          return await this.notifyUser(
+            platformId,
+            BOT.MESSAGE.ERR_AMOUNT_INVALID
+          );
+        }
+        return await this.handleWithdrawCommand(
+          messageId,
+          platformId,
+          outAmount,
+          outAddress
+        );
+      case 'confirm':
+        return await this.handleConfirmCommand(messageId, platformId);
+      case 'cancel':
+        return await this.handleCancelCommand(platformId);
+      case 'link':
+      case 'unlink':
+        const [ secret, keep ] = words.slice(1, 3).map(w => w.toLowerCase());
+        if ([ 'confirm', 'cancel' ].includes(secret)) {
+          return await this.handleLinkAction(platformId, secret);
+        } else if (command == 'link' && secret == 'reset') {
+          return await this.handleLinkResetCommand(platformId);
+        } else if (command == 'unlink') {
+          return await this.handleUnlinkCommand(platformId);
+        } else if (keep && ![ 'this', 'other' ].includes(keep)) {
+          return await this.notifyUser(
+            platformId,
+            `Syntax: link [secret code|reset] [this|other]`
+          );
+        }
+        return await this.handleLinkCommand(
+          platformId,
+          words[1],
+          keep == 'this'
+        );
+      case 'backup':
+        return await this.handleBackupCommand(platformId);
+      default:
+        return await this.notifyUser(
+          platformId,
+          `You can only use the following commands in my DMs:\r\n\r\n` +
+          `balance - Get your current balance in the bot.\r\n` +
+          `deposit - Get the address needed to deposit XPI.\r\n` +
+          `withdraw <amount|all> <external_address> - Withdraw XPI to an ` +
+          `external wallet.\r\n` +
+          `confirm / cancel - Confirm or cancel your pending withdrawal\r\n` +
+          `link [secret code] [this|other] - Link to another ` +
+          `account/platform, keeping the other account by default\r\n` +
+          `link reset - Replace your secret code with a new one\r\n` +
+          `unlink - Unlink this account from your other accounts\r\n` +
+          `backup - Get the seed phrase of your bot wallet\r\n\r\n` +
+          `To give XPI, reply to a tweet with: @bot give <amount>`
+        );
+    }
+  };
 };
\ No newline at end of file
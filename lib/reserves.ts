@@ -0,0 +1,121 @@
+import { Database } from './database';
+import { WalletManager } from './wallet';
+import * as Util from '../util';
+
+/** Reserves of one account; amounts in XPI */
+export type AccountReserves = {
+  accountId: string,
+  /** Deposits and gives received, less gives sent and withdrawals with fees */
+  expected: string,
+  /** Live UTXOs of every `WalletKey` of the account */
+  utxos: string,
+  /** Off-chain ledger balance */
+  ledger: string,
+  /** `utxos` plus `ledger`, less `expected` */
+  difference: string,
+  /** In-memory UTXOs that Chronik reports as spent or missing */
+  stale: string,
+  status: 'ok' | 'shortfall' | 'surplus'
+};
+
+export type ReservesReport = {
+  timestamp: string,
+  /** Whether the live UTXOs cover the expected balance of every account */
+  solvent: boolean,
+  expected: string,
+  utxos: string,
+  difference: string,
+  stale: string,
+  /** Accounts whose status is not `ok` */
+  flagged: number,
+  accounts: AccountReserves[]
+};
+
+const CSV_COLUMNS: (keyof AccountReserves)[] = [
+  'accountId',
+  'expected',
+  'utxos',
+  'ledger',
+  'difference',
+  'stale',
+  'status'
+];
+
+/**
+ * Proof-of-reserves report  
+ * Compares the live UTXOs of every `WalletKey` with the balance each account
+ * is owed according to the Deposit, Withdrawal and Give tables  
+ * Withdrawals and gives saved before network fees were recorded show up as a
+ * shortfall of their fees
+ */
+export class Reserves {
+  private prisma: Database;
+  private wallet: WalletManager;
+
+  constructor(
+    prisma: Database,
+    wallet: WalletManager
+  ) {
+    this.prisma = prisma;
+    this.wallet = wallet;
+  };
+  /** Build the report for every account */
+  getReport = async (): Promise<ReservesReport> => {
+    try {
+      const audit = await this.wallet.auditUtxos();
+      const totals = await this.prisma.getAccountTotals();
+      const sum = { expected: 0, utxos: 0, stale: 0 };
+      let flagged = 0;
+      const accounts = Object.entries(totals).map(([ accountId, total ]) => {
+        const expected = total.deposits + total.received
+          - total.given - total.withdrawals;
+        let utxos = 0;
+        let stale = 0;
+        for (const userId of total.userIds) {
+          utxos += audit[userId]?.utxos ?? 0;
+          stale += audit[userId]?.stale ?? 0;
+        }
+        const difference = utxos + total.ledger - expected;
+        const status: AccountReserves['status'] = difference < 0
+          ? 'shortfall'
+          : difference > 0 ? 'surplus' : 'ok';
+        sum.expected += expected;
+        sum.utxos += utxos;
+        sum.stale += stale;
+        if (status != 'ok') {
+          flagged++;
+        }
+        return {
+          accountId,
+          expected: Util.toXPI(expected),
+          utxos: Util.toXPI(utxos),
+          ledger: Util.toXPI(total.ledger),
+          difference: Util.toXPI(difference),
+          stale: Util.toXPI(stale),
+          status
+        };
+      });
+      return {
+        timestamp: new Date().toISOString(),
+        solvent: sum.utxos >= sum.expected,
+        expected: Util.toXPI(sum.expected),
+        utxos: Util.toXPI(sum.utxos),
+        difference: Util.toXPI(sum.utxos - sum.expected),
+        stale: Util.toXPI(sum.stale),
+        flagged,
+        accounts
+      };
+    } catch (e: any) {
+      throw new Error(`getReport: ${e.message}`);
+    }
+  };
+  /** Render the accounts of `report` as CSV, one row per account */
+  static toCsv = (
+    report: ReservesReport
+  ) => {
+    const rows = report.accounts.map(account => {
+      return CSV_COLUMNS.map(column => account[column]).join(',');
+    });
+    return [ CSV_COLUMNS.join(','), ...rows ].join('\n') + '\n';
+  };
+};
\ No newline at end of file
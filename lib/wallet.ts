@@ -15,62 +15,130 @@ import {
   WsEndpoint
 } from 'chronik-client';
 import config from '../config';
-import { WALLET } from '../util/constants';
+import { CHRONIK, WALLET } from '../util/constants';
+import * as Crypto from '../util/crypto';
+import logger from '../util/logger';
 import { EventEmitter } from 'node:stream';
 
-type WalletKey = {
+const log = logger.child({ module: 'walletmanager' });
+
+/** Address derived from a `WalletKey` */
+type KeyScript = {
   signingKey: PrivateKey;
   address: Address;
   script: Script;
+  /** Hex of `script`, as in the outputs of Chronik txs */
+  outputScript: string;
   scriptHex: string;
   scriptType: ScriptType;
-  utxos: ParsedUtxo[];
+};
+
+type WalletKey = {
+  /** `m/44'/10605'/0'`, parent of the receive and change chains */
+  accountKey: HDPrivateKey;
+  /** Deposit addresses by index; the last one is the current address */
+  receive: KeyScript[];
+  /** Change addresses by index; the last one receives the next change */
+  change: KeyScript[];
+  utxos: KeyUtxo[];
 };
 
 type ParsedUtxo = {
   txid: string;
   outIdx: number;
   value: string;
+  /** Height of the confirming block, or -1 if still in the mempool */
+  blockHeight: number;
+};
+
+/** UTXO of a `WalletKey`, with the output script of the address it pays */
+type KeyUtxo = ParsedUtxo & {
+  outputScript: string
 };
 
 export type AccountUtxo = ParsedUtxo & {
   userId: string
 }
 
+/** Indexes of the current deposit address and the next change address */
+export type KeyIndexes = {
+  userId: string,
+  receiveIndex: number,
+  changeIndex: number
+};
+
+export type ConfirmedTx = {
+  txid: string,
+  blockHeight: number
+};
+
+/** Connection state of the Chronik WebSocket */
+export type WsState = 'connecting' | 'connected' | 'disconnected' | 'closed';
+
+export type RevertedTx = {
+  txid: string,
+  utxos: AccountUtxo[]
+};
+
 export declare interface WalletManager {
   on(event: 'AddedToMempool', callback: (utxo: AccountUtxo) => void): this;
+  on(event: 'Confirmed', callback: (tx: ConfirmedTx) => void): this;
+  on(event: 'Unconfirmed', callback: (txid: string) => void): this;
+  on(event: 'Reverted', callback: (tx: RevertedTx) => void): this;
+  on(event: 'IndexesChanged', callback: (indexes: KeyIndexes) => void): this;
+  on(
+    event: 'WsState',
+    callback: (state: WsState, reconnectDelay?: number) => void
+  ): this;
 };
 
 export class WalletManager extends EventEmitter {
   // Chronik properties
   private chronik: ChronikClient;
   private chronikWs: WsEndpoint;
+  private wsState: WsState;
+  /** Set once `closeWsEndpoint` is called; prevents reconnecting */
+  private wsClosed = false;
+  /** Set when disconnected; UTXOs are resynced once reconnected */
+  private wsNeedsResync = false;
+  private wsReconnectAttempts = 0;
+  private wsReconnectTimeout: NodeJS.Timeout;
   // Wallet properties
   private keys: { [userId: string]: WalletKey } = {};
+  /** `userId` of the `WalletKey` of every derived script, by output script */
+  private scriptUserIds: { [outputScript: string]: string } = {};
   /** Array of associated `userId` strings for each `accountId` */
   private accounts: { [accountId: string]: string[] } = {};
+  /** Outpoints of UTXOs selected by a tx that is not yet broadcasted */
+  private reservedUtxos: Set<string> = new Set();
+  /** Tail of the queue of spends for each `accountId` */
+  private accountLocks: { [accountId: string]: Promise<void> } = {};
   /** Provides all off- and on-chain wallet functionality */
   constructor() {
     super();
     this.chronik = new ChronikClient(config.wallet.chronikUrl);
-    this.chronikWs = this.chronik.ws({
-      onMessage: this._chronikHandleWsMessage
-    });
+    this.chronikWs = this._openWsEndpoint();
   };
   /** 
    * - Initialize Chronik WS
-   * - load user accounts (keys, UTXOs, WS subscription)
+   * - decrypt and load user accounts (keys, UTXOs, WS subscription)
    */
   init = async (
     users: Array<{
       accountId: string,
       userId: string,
-      hdPrivKey: HDPrivateKey
+      hdPrivKey: Buffer,
+      dataKey?: string,
+      receiveIndex?: number,
+      changeIndex?: number
     }>
   ) => {
     try {
-      for (const user of users) {
-        await this.loadKey(user);
+      for (const { hdPrivKey, dataKey, ...user } of users) {
+        await this.loadKey({
+          ...user,
+          hdPrivKey: WalletManager.hdPrivKeyFromBuffer(hdPrivKey, dataKey)
+        });
       }
     } catch (e: any) {
       throw new Error(`WalletManager: init: ${e.message}`);
@@ -78,12 +146,19 @@ export class WalletManager extends EventEmitter {
   };
   /** Unsubscribe from and close Chronik WS */
   closeWsEndpoint = () => {
-    for (const userId in this.keys) {
-      const { scriptType, scriptHex } = this.keys[userId];
-      this.chronikWs.unsubscribe(scriptType, scriptHex);
+    this.wsClosed = true;
+    clearTimeout(this.wsReconnectTimeout);
+    for (const key of Object.values(this.keys)) {
+      for (const { scriptType, scriptHex } of this._getKeyScripts(key)) {
+        this.chronikWs.unsubscribe(scriptType, scriptHex);
+      }
     }
     this.chronikWs.close();
   };
+  /** Get the current connection state of the Chronik WS */
+  getWsState = () => this.wsState;
+  /** Get the number of loaded `WalletKey`s */
+  getKeyCount = () => Object.keys(this.keys).length;
   /** Get the UTXOs for every `WalletKey` */
   getUtxos = () => {
     const utxos: AccountUtxo[] = [];
@@ -91,75 +166,267 @@ export class WalletManager extends EventEmitter {
       userIds.forEach(userId => 
         utxos.push(
           ...this.keys[userId].utxos.map(utxo => {
-            return { ...utxo, userId };
+            return this._toAccountUtxo(utxo, userId);
           })
         )
       );
     }
     return utxos;
   };
-  /** Get the UTXO balance for the provided `accountId` */
-  getAccountBalance = async (
+  /** Get the validated UTXOs of every `WalletKey` of `accountId` */
+  getAccountUtxos = async (
     accountId: string
   ) => {
-    let sats = 0;
+    const utxos: AccountUtxo[] = [];
     try {
       for (const userId of this.accounts[accountId]) {
         // Validate the utxos of this WalletKey; discards invalid utxos
         await this._reconcileUtxos(userId);
-        this.keys[userId].utxos.forEach(utxo => sats += Number(utxo.value));
+        utxos.push(
+          ...this.keys[userId].utxos.map(utxo => {
+            return this._toAccountUtxo(utxo, userId);
+          })
+        );
       }
-      return sats;
+      return utxos;
+    } catch (e: any) {
+      throw new Error(`getAccountUtxos: ${e.message}`);
+    }
+  };
+  /** Get the UTXO balance for the provided `accountId` */
+  getAccountBalance = async (
+    accountId: string
+  ) => {
+    try {
+      const utxos = await this.getAccountUtxos(accountId);
+      return utxos.reduce((sats, utxo) => sats + Number(utxo.value), 0);
     } catch (e: any) {
       throw new Error(`getAccountBalance: ${e.message}`);
     }
   };
-  /** Return the XAddress of the `WalletKey` of `userId` */
-  getXAddress = (userId: string) => this.keys[userId].address.toXAddress();
+  /** Get the UTXO balance of the `WalletKey` of `userId` alone */
+  getUserBalance = async (
+    userId: string
+  ) => {
+    try {
+      await this._reconcileUtxos(userId);
+      return this.keys[userId].utxos
+        .reduce((sats, utxo) => sats + Number(utxo.value), 0);
+    } catch (e: any) {
+      throw new Error(`getUserBalance: ${e.message}`);
+    }
+  };
+  /**
+   * Get the balance of `accountId` that can be spent by Give/Withdraw  
+   * Excludes reserved UTXOs, and unconfirmed UTXOs unless configured to
+   * spend them
+   */
+  getSpendableBalance = async (
+    accountId: string
+  ) => {
+    try {
+      const utxos = await this.getAccountUtxos(accountId);
+      return utxos
+        .filter(this.isAvailableUtxo)
+        .reduce((sats, utxo) => sats + Number(utxo.value), 0);
+    } catch (e: any) {
+      throw new Error(`getSpendableBalance: ${e.message}`);
+    }
+  };
+  /** Whether `utxo` is spendable and not reserved by a pending tx */
+  isAvailableUtxo = (
+    utxo: ParsedUtxo
+  ) => WalletManager.isSpendableUtxo(utxo) &&
+    !this.reservedUtxos.has(this._toOutpointKey(utxo));
+  /**
+   * Wait for all earlier spends of `accountId` to finish  
+   * Return the function that lets the next spend proceed
+   */
+  lockAccount = async (
+    accountId: string
+  ) => {
+    const previous = this.accountLocks[accountId] ?? Promise.resolve();
+    let release: () => void;
+    const lock = new Promise<void>(resolve => release = resolve);
+    const tail = previous.then(() => lock);
+    this.accountLocks[accountId] = tail;
+    await previous;
+    return () => {
+      release();
+      if (this.accountLocks[accountId] === tail) {
+        delete this.accountLocks[accountId];
+      }
+    };
+  };
+  /**
+   * Replace the in-memory UTXOs of `userId` with those from the Chronik API  
+   * Emits `AddedToMempool`/`Confirmed` for new and newly confirmed UTXOs  
+   * Return the number of UTXOs added and removed
+   */
+  resyncUtxos = async (
+    userId: string
+  ) => {
+    try {
+      const key = this.keys[userId];
+      const utxos = await this._fetchKeyUtxos(key);
+      const stale = key.utxos.filter(existing => !utxos.find(utxo => {
+        return utxo.txid == existing.txid && utxo.outIdx == existing.outIdx;
+      }));
+      key.utxos = key.utxos.filter(utxo => !stale.includes(utxo));
+      let added = 0;
+      for (const utxo of utxos) {
+        const existing = this._isExistingUtxo(userId, utxo);
+        if (!existing) {
+          added++;
+          key.utxos.push(utxo);
+          this._rotateKeyScripts(userId, utxo.outputScript);
+          this.emit('AddedToMempool', this._toAccountUtxo(utxo, userId));
+        } else if (existing.blockHeight < 0 && utxo.blockHeight >= 0) {
+          const { txid, blockHeight } = utxo;
+          this._setUtxosBlockHeight(txid, blockHeight);
+          this.emit('Confirmed', { txid, blockHeight });
+        }
+      }
+      if (added > 0 || stale.length > 0) {
+        log.info('UTXOs resynced', { userId, added, removed: stale.length });
+      }
+      return { added, removed: stale.length };
+    } catch (e: any) {
+      throw new Error(`resyncUtxos: ${e.message}`);
+    }
+  };
+  /**
+   * Get the value of the live UTXOs of every `WalletKey` from the Chronik API,
+   * by `userId`, in satoshis  
+   * `stale` is the value of in-memory UTXOs that Chronik reports as spent or
+   * missing; the in-memory UTXOs are not changed
+   */
+  auditUtxos = async () => {
+    try {
+      const audit: {
+        [userId: string]: { utxos: number, stale: number }
+      } = {};
+      for (const [ userId, key ] of Object.entries(this.keys)) {
+        const utxos = await this._fetchKeyUtxos(key);
+        const cached = [ ...key.utxos ];
+        const result = cached.length > 0
+          ? await this.chronik.validateUtxos(
+            cached.map(utxo => WalletManager.toOutpoint(utxo))
+          )
+          : [];
+        audit[userId] = {
+          utxos: utxos.reduce((sats, utxo) => sats + Number(utxo.value), 0),
+          stale: cached
+            .filter((utxo, i) => result[i].state != 'UNSPENT')
+            .reduce((sats, utxo) => sats + Number(utxo.value), 0)
+        };
+      }
+      return audit;
+    } catch (e: any) {
+      throw new Error(`auditUtxos: ${e.message}`);
+    }
+  };
+  /** Get the `userId`s of every `WalletKey` of `accountId` */
+  getAccountUserIds = (accountId: string) => [ ...this.accounts[accountId] ];
+  /**
+   * Return the current deposit XAddress of the `WalletKey` of `userId`  
+   * A new address is derived once it is used
+   */
+  getXAddress = (userId: string) => {
+    return this._getDepositAddress(userId).toXAddress();
+  };
+  /** Return the current deposit XAddress of every `WalletKey` of `accountId` */
   getXAddresses = (accountId: string) => {
-    return this.accounts[accountId].map(userId => {
-      return this.keys[userId].address.toXAddress()
+    return this.accounts[accountId].map(userId => this.getXAddress(userId));
+  };
+  /** Whether `address` was derived from any `WalletKey` of `accountId` */
+  isAccountAddress = (
+    accountId: string,
+    address: string
+  ) => {
+    const outputScript = this._getScriptFromAddress(address).toHex();
+    return this.accounts[accountId].includes(this.scriptUserIds[outputScript]);
+  };
+  /** Whether `utxo` pays a change address, i.e. it is not a deposit */
+  isChangeUtxo = (
+    utxo: AccountUtxo
+  ) => {
+    const existing = this._isExistingUtxo(utxo.userId, utxo);
+    return this.keys[utxo.userId].change.some(keyScript => {
+      return keyScript.outputScript == existing?.outputScript;
     });
   };
+  /** Get the derivation indexes of the `WalletKey` of `userId` */
+  getKeyIndexes = (
+    userId: string
+  ): KeyIndexes => {
+    const { receive, change } = this.keys[userId];
+    return {
+      userId,
+      receiveIndex: receive.length - 1,
+      changeIndex: change.length - 1
+    };
+  };
   /** 
-   * - load wallet signingKey, script, address
+   * - derive the receive and change addresses of the wallet up to the saved
+   *   indexes, then scan past them for addresses used since
    * - download UTXOs from Chronik and store `ParsedUtxo`s
-   * - subscribe to Chronik WS
+   * - subscribe to Chronik WS for every derived address
    */
   loadKey = async ({
     accountId,
     userId,
-    hdPrivKey
+    hdPrivKey,
+    receiveIndex = 0,
+    changeIndex = 0
   }: {
     accountId: string,
     userId: string,
-    hdPrivKey: HDPrivateKey
+    hdPrivKey: HDPrivateKey,
+    receiveIndex?: number,
+    changeIndex?: number
   }) => {
     try {
-      const signingKey = this._getDerivedSigningKey(hdPrivKey);
-      const address = this._getAddressFromSigningKey(signingKey);
-      const script = this._getScriptFromAddress(address);
-      const scriptType = this._chronikScriptType(address);
-      const scriptHex = script.getPublicKeyHash().toString('hex');
-      const utxos = await this._fetchUtxos(scriptType, scriptHex);
-      const parsedUtxos = utxos.map(utxo => this._toParsedUtxo(utxo));
-      this.keys[userId] = {
-        signingKey,
-        address,
-        script,
-        scriptHex,
-        scriptType,
-        utxos: parsedUtxos
-      }
+      const accountKey = this._getAccountKey(hdPrivKey);
+      const receive = await this._scanChain(
+        accountKey,
+        WALLET.RECEIVE_CHAIN,
+        receiveIndex
+      );
+      const change = await this._scanChain(
+        accountKey,
+        WALLET.CHANGE_CHAIN,
+        changeIndex
+      );
+      const key: WalletKey = {
+        accountKey,
+        receive: receive.keyScripts,
+        change: change.keyScripts,
+        utxos: [ ...receive.utxos, ...change.utxos ]
+      };
+      this.keys[userId] = key;
       this.accounts[accountId]
         ? this.accounts[accountId].push(userId)
         : this.accounts[accountId] = [userId];
-      this.chronikWs.subscribe(scriptType, scriptHex);
+      for (const keyScript of this._getKeyScripts(key)) {
+        this.scriptUserIds[keyScript.outputScript] = userId;
+        this.chronikWs.subscribe(keyScript.scriptType, keyScript.scriptHex);
+      }
+      const indexes = this.getKeyIndexes(userId);
+      if (
+        indexes.receiveIndex != receiveIndex ||
+        indexes.changeIndex != changeIndex
+      ) {
+        this.emit('IndexesChanged', indexes);
+      }
     } catch (e: any) {
       throw new Error(`loadKey: ${userId}: ${e.message}`);
     }
   };
-  /** Update the WalletKey of `userId` with provided `accountId` */
+  /**
+   * Update the WalletKey of `userId` with provided `accountId`  
+   * `newAccountId` may be a new account, e.g. when unlinking
+   */
   updateKey = (
     userId: string,
     oldAccountId: string,
@@ -167,56 +434,158 @@ export class WalletManager extends EventEmitter {
   ) => {
     const idx = this.accounts[oldAccountId].findIndex(id => id == userId);
     this.accounts[oldAccountId].splice(idx, 1);
+    if (this.accounts[oldAccountId].length < 1) {
+      delete this.accounts[oldAccountId];
+    }
+    if (!this.accounts[newAccountId]) {
+      this.accounts[newAccountId] = [];
+    }
     this.accounts[newAccountId].push(userId);
   };
-  /** Process Give/Withdraw tx for the provided `fromUserId` */
+  /**
+   * Process Give/Withdraw tx for the provided `fromUserId`  
+   * UTXOs of `settleUserIds` are spent if those of the account are not enough  
+   * `subtractFee` always pays the fee from `sats`, e.g. to sweep the account
+   */
   genTx = async ({
     fromAccountId,
     toUserId,
     outAddress,
-    sats
+    sats,
+    settleUserIds = [],
+    subtractFee = false,
+    serviceFee
   }: {
     fromAccountId: string,
     toUserId?: string,
     outAddress?: string,
+    sats: number,
+    settleUserIds?: string[],
+    subtractFee?: boolean,
+    /** Paid in full as the second output; never reduced by the network fee */
+    serviceFee?: { address: string, sats: number }
+  }) => {
+    try {
+      const userIds = this.accounts[fromAccountId].concat(
+        settleUserIds.filter(userId => this.keys[userId])
+      );
+      return this._genTx(
+        userIds,
+        [{ address: outAddress || this._getDepositAddress(toUserId), sats }],
+        subtractFee,
+        serviceFee?.sats > 0 ? [ serviceFee ] : []
+      );
+    } catch (e: any) {
+      throw new Error(`genTx: ${e.message}`);
+    }
+  };
+  /** Process Give tx paying `sats` to each of the provided `toUserIds` */
+  genRainTx = async ({
+    fromAccountId,
+    toUserIds,
+    sats
+  }: {
+    fromAccountId: string,
+    toUserIds: string[],
     sats: number
   }) => {
     try {
       return this._genTx(
         this.accounts[fromAccountId],
-        outAddress || this.keys[toUserId].address,
-        sats
+        toUserIds.map(userId => ({
+          address: this._getDepositAddress(userId),
+          sats
+        }))
       );
     } catch (e: any) {
-      throw new Error(`genTx: ${e.message}`);
+      throw new Error(`genRainTx: ${e.message}`);
+    }
+  };
+  /**
+   * Get the net amount each `WalletKey` spends in `tx`, by `userId`  
+   * i.e. the value of its inputs less the value of any outputs paying it
+   */
+  getTxUserSpends = (
+    tx: Transaction
+  ) => {
+    const spends: { [userId: string]: number } = {};
+    for (const input of tx.inputs) {
+      const outpoint = {
+        txid: input.prevTxId.toString('hex'),
+        outIdx: input.outputIndex
+      };
+      for (const [ userId, key ] of Object.entries(this.keys)) {
+        const utxo = key.utxos.find(utxo => {
+          return utxo.txid == outpoint.txid && utxo.outIdx == outpoint.outIdx;
+        });
+        if (utxo) {
+          spends[userId] = (spends[userId] || 0) + Number(utxo.value);
+          break;
+        }
+      }
     }
+    for (const output of tx.outputs) {
+      const userId = this._getUserIdFromOutputScript(output.script.toHex());
+      if (userId) {
+        spends[userId] = (spends[userId] || 0) - output.satoshis;
+      }
+    }
+    return spends;
   };
-  /** Broadcast the provided tx for the provided userId */
+  /**
+   * Broadcast the provided tx for the provided userId  
+   * Spent UTXOs are removed and the change is saved as a new UTXO right
+   * away, so that following txs can spend it; reserved UTXOs are released
+   * if the broadcast fails
+   */
   broadcastTx = async (
     tx: Transaction
   ) => {
     try {
       const txBuf = tx.toBuffer();
       const broadcasted = await this.chronik.broadcastTx(txBuf);
+      this._spendUtxos(tx);
       return broadcasted.txid;
     } catch (e: any) {
+      this.releaseTx(tx);
       throw new Error(`broadcastTx: ${e.message}`);
     }
   };
-  /** Generate transaction for the provided WalletKeys */
+  /** Release the UTXOs reserved by `tx`, e.g. if it won't be broadcasted */
+  releaseTx = (
+    tx: Transaction
+  ) => {
+    for (const input of tx.inputs) {
+      this.reservedUtxos.delete(this._toOutpointKey({
+        txid: input.prevTxId.toString('hex'),
+        outIdx: input.outputIndex
+      }));
+    }
+  };
+  /**
+   * Generate transaction for the provided WalletKeys  
+   * `fixedOutputs` follow `outputs` and do not share the network fee
+   */
   private _genTx = (
     userIds: string[],
-    outAddress: string | Address,
-    outSats: number
+    outputs: Array<{ address: string | Address, sats: number }>,
+    subtractFee = false,
+    fixedOutputs: Array<{ address: string | Address, sats: number }> = []
   ) => {
     const tx = new Transaction();
     const signingKeys: PrivateKey[] = [];
+    const outSats = outputs.concat(fixedOutputs)
+      .reduce((total, output) => total + output.sats, 0);
     try {
       for (const userId of userIds) {
         const key = this.keys[userId];
-        signingKeys.push(key.signingKey);
-        for (const utxo of key.utxos) {
-          tx.addInput(this._toPKHInput(utxo, key.script));
+        for (const utxo of key.utxos.filter(this.isAvailableUtxo)) {
+          const { script, signingKey } = this._getKeyScripts(key)
+            .find(keyScript => keyScript.outputScript == utxo.outputScript);
+          if (!signingKeys.includes(signingKey)) {
+            signingKeys.push(signingKey);
+          }
+          tx.addInput(this._toPKHInput(utxo, script));
           if (tx.inputAmount > outSats) {
             break;
           }
@@ -226,30 +595,87 @@ export class WalletManager extends EventEmitter {
           continue;
         }
         tx.feePerByte(config.wallet.tx.feeRate);
-        // Set current key's address as change address
-        tx.change(key.address);
-        const outScript = this._getScriptFromAddress(outAddress);
+        // Set current key's next change address as change address
+        tx.change(this._current(key.change).address);
         const txFee = tx._estimateSize() * config.wallet.tx.feeRate;
-        tx.addOutput(
-          this._toOutput(
-            // subtract fee from output amount if required
-            outSats + txFee > tx.inputAmount ? outSats - txFee : outSats,
-            outScript
-          )
-        );
+        // subtract fee from output amounts if required, split evenly
+        const feeShare = subtractFee || outSats + txFee > tx.inputAmount
+          ? Math.ceil(txFee / outputs.length)
+          : 0;
+        for (const { address, sats } of outputs) {
+          const outScript = this._getScriptFromAddress(address);
+          tx.addOutput(this._toOutput(sats - feeShare, outScript));
+        }
+        for (const { address, sats } of fixedOutputs) {
+          const outScript = this._getScriptFromAddress(address);
+          tx.addOutput(this._toOutput(sats, outScript));
+        }
         tx.sign(signingKeys);
         const verified = tx.verify();
         switch (typeof verified) {
           case 'boolean':
+            // Reserve the inputs so that other txs don't select them
+            this._reserveUtxos(tx);
             return tx;
           case 'string':
             throw new Error(verified);
         }
       }
+      throw new Error(`insufficient spendable UTXOs`);
     } catch (e: any) {
       throw new Error(`_genTx: ${e.message}`);
     }
   };
+  private _reserveUtxos = (
+    tx: Transaction
+  ) => {
+    for (const input of tx.inputs) {
+      this.reservedUtxos.add(this._toOutpointKey({
+        txid: input.prevTxId.toString('hex'),
+        outIdx: input.outputIndex
+      }));
+    }
+  };
+  /**
+   * Remove the inputs of the broadcasted `tx` from the in-memory UTXO set
+   * and add its change output  
+   * Chronik `AddedToMempool` skips the change since it is already saved
+   */
+  private _spendUtxos = (
+    tx: Transaction
+  ) => {
+    const spent = new Set(
+      tx.inputs.map(input => this._toOutpointKey({
+        txid: input.prevTxId.toString('hex'),
+        outIdx: input.outputIndex
+      }))
+    );
+    for (const key of Object.values(this.keys)) {
+      key.utxos = key.utxos.filter(utxo => {
+        return !spent.has(this._toOutpointKey(utxo));
+      });
+    }
+    spent.forEach(outpoint => this.reservedUtxos.delete(outpoint));
+    const change = tx.getChangeOutput();
+    if (!change) {
+      return;
+    }
+    const userId = this._getUserIdFromOutputScript(change.script.toHex());
+    const utxo = {
+      txid: tx.txid,
+      outIdx: tx.outputs.indexOf(change),
+      value: change.satoshis.toString(),
+      blockHeight: -1,
+      outputScript: change.script.toHex()
+    };
+    if (userId && !this._isExistingUtxo(userId, utxo)) {
+      this.keys[userId].utxos.push(utxo);
+      this._rotateKeyScripts(userId, utxo.outputScript);
+    }
+  };
+  private _toOutpointKey = (
+    outpoint: OutPoint
+  ) => `${outpoint.txid}_${outpoint.outIdx}`;
   /**
    * Ensure Chronik `AddedToMempool` doesn't corrupt the in-memory UTXO set
    */
@@ -275,6 +701,38 @@ export class WalletManager extends EventEmitter {
       throw new Error(`_fetchUtxos: ${e.message}`);
     }
   };
+  /** Fetch the UTXOs of every derived address of `key` from Chronik API */
+  private _fetchKeyUtxos = async (
+    key: WalletKey
+  ) => {
+    try {
+      const utxos: KeyUtxo[] = [];
+      for (const keyScript of this._getKeyScripts(key)) {
+        const { scriptType, scriptHex, outputScript } = keyScript;
+        utxos.push(
+          ...(await this._fetchUtxos(scriptType, scriptHex))
+            .map(utxo => this._toKeyUtxo(utxo, outputScript))
+        );
+      }
+      return utxos;
+    } catch (e: any) {
+      throw new Error(`_fetchKeyUtxos: ${e.message}`);
+    }
+  };
+  /** Whether any tx paid to or spent from `keyScript` */
+  private _isUsedScript = async (
+    keyScript: KeyScript
+  ) => {
+    try {
+      const { scriptType, scriptHex } = keyScript;
+      const { txs } = await this.chronik
+        .script(scriptType, scriptHex)
+        .history(0, 1);
+      return txs.length > 0;
+    } catch (e: any) {
+      throw new Error(`_isUsedScript: ${e.message}`);
+    }
+  };
   /** Remove spent and otherwise invalid UTXOs from user's `WalletKey` */
   private _reconcileUtxos = async (
     userId: string
@@ -297,22 +755,123 @@ export class WalletManager extends EventEmitter {
     }
   };
   /**
-   * Derive single `PrivateKey` from account's `HDPrivateKey`
+   * Derive the BIP44 account `HDPrivateKey` from the wallet's `HDPrivateKey`
    */
-  private _getDerivedSigningKey = (
+  private _getAccountKey = (
     hdPrivKey: HDPrivateKey
-  ): PrivateKey => {
+  ): HDPrivateKey => {
     try {
       return hdPrivKey
         .deriveChild(WALLET.PURPOSE, true)
         .deriveChild(WALLET.COINTYPE, true)
-        .deriveChild(0, true)
-        .deriveChild(0)
-        .deriveChild(0).privateKey;
+        .deriveChild(0, true);
+    } catch (e: any) {
+      throw new Error(`_getAccountKey: ${e.message}`);
+    }
+  };
+  /** Derive the address at `index` of `chain` from the account key */
+  private _deriveKeyScript = (
+    accountKey: HDPrivateKey,
+    chain: number,
+    index: number
+  ): KeyScript => {
+    try {
+      const signingKey = accountKey
+        .deriveChild(chain)
+        .deriveChild(index).privateKey;
+      const address = this._getAddressFromSigningKey(signingKey);
+      const script = this._getScriptFromAddress(address);
+      return {
+        signingKey,
+        address,
+        script,
+        outputScript: script.toHex(),
+        scriptHex: script.getPublicKeyHash().toString('hex'),
+        scriptType: this._chronikScriptType(address)
+      };
+    } catch (e: any) {
+      throw new Error(`_deriveKeyScript: ${e.message}`);
+    }
+  };
+  /**
+   * Derive the addresses of `chain` up to the first unused address, and at
+   * least up to `index`; addresses before `index` are assumed to be used  
+   * Scanning stops after `WALLET.GAP_LIMIT` unused addresses in a row  
+   * Return the derived addresses along with their UTXOs
+   */
+  private _scanChain = async (
+    accountKey: HDPrivateKey,
+    chain: number,
+    index: number
+  ) => {
+    try {
+      const keyScripts: KeyScript[] = [];
+      const utxos: KeyUtxo[] = [];
+      // Index of the first unused address
+      let next = index;
+      for (let i = 0; i <= index || i < next + WALLET.GAP_LIMIT; i++) {
+        const keyScript = this._deriveKeyScript(accountKey, chain, i);
+        keyScripts.push(keyScript);
+        if (i < index || await this._isUsedScript(keyScript)) {
+          next = Math.max(next, i + 1);
+          const { scriptType, scriptHex, outputScript } = keyScript;
+          utxos.push(
+            ...(await this._fetchUtxos(scriptType, scriptHex))
+              .map(utxo => this._toKeyUtxo(utxo, outputScript))
+          );
+        }
+      }
+      return { keyScripts: keyScripts.slice(0, next + 1), utxos };
     } catch (e: any) {
-      throw new Error(`getDerivedPrivKey: ${e.message}`);
+      throw new Error(`_scanChain: ${e.message}`);
     }
   };
+  /**
+   * Derive the next address of a chain of `userId` once its last address is
+   * used by `outputScript`, and subscribe to it  
+   * Emits `IndexesChanged` so that the new indexes are saved
+   */
+  private _rotateKeyScripts = (
+    userId: string,
+    outputScript: string
+  ) => {
+    const key = this.keys[userId];
+    const chains: [ number, KeyScript[] ][] = [
+      [ WALLET.RECEIVE_CHAIN, key.receive ],
+      [ WALLET.CHANGE_CHAIN, key.change ]
+    ];
+    for (const [ chain, keyScripts ] of chains) {
+      if (this._current(keyScripts).outputScript != outputScript) {
+        continue;
+      }
+      const keyScript = this._deriveKeyScript(
+        key.accountKey,
+        chain,
+        keyScripts.length
+      );
+      keyScripts.push(keyScript);
+      this.scriptUserIds[keyScript.outputScript] = userId;
+      this.chronikWs.subscribe(keyScript.scriptType, keyScript.scriptHex);
+      log.info('address rotated', {
+        userId,
+        chain,
+        index: keyScripts.length - 1
+      });
+      this.emit('IndexesChanged', this.getKeyIndexes(userId));
+    }
+  };
+  /** Every derived address of `key`, on both chains */
+  private _getKeyScripts = (
+    key: WalletKey
+  ) => [ ...key.receive, ...key.change ];
+  /** Current deposit address of the `WalletKey` of `userId` */
+  private _getDepositAddress = (
+    userId: string
+  ) => this._current(this.keys[userId].receive).address;
+  /** The last derived address of a chain */
+  private _current = (
+    keyScripts: KeyScript[]
+  ) => keyScripts[keyScripts.length - 1];
   /**
    * Convert `PrivateKey` into `Address`
    */
@@ -335,50 +894,248 @@ export class WalletManager extends EventEmitter {
       throw new Error(`_getScriptFromAddress: ${e.message}`);
     }
   };
-  /** Detect and process Chronik WS messages */
+  /**
+   * Open a new Chronik WS and subscribe to the script of every `WalletKey`  
+   * Reconnects are handled by `_chronikHandleWsEnd` so we can back off
+   */
+  private _openWsEndpoint = () => {
+    this._setWsState('connecting');
+    const ws = this.chronik.ws({
+      autoReconnect: false,
+      onMessage: this._chronikHandleWsMessage,
+      onConnect: this._chronikHandleWsConnect,
+      onEnd: this._chronikHandleWsEnd,
+    });
+    for (const key of Object.values(this.keys)) {
+      for (const { scriptType, scriptHex } of this._getKeyScripts(key)) {
+        ws.subscribe(scriptType, scriptHex);
+      }
+    }
+    return ws;
+  };
+  /** Resync UTXOs if we were disconnected; retry connection on failure */
+  private _chronikHandleWsConnect = async () => {
+    this.wsReconnectAttempts = 0;
+    this._setWsState('connected');
+    if (!this.wsNeedsResync) {
+      return;
+    }
+    const failed = await this._resyncUtxos();
+    if (failed > 0) {
+      log.error('chronik ws: UTXO resync failed', { keys: failed });
+      // closing triggers `_chronikHandleWsEnd`, which schedules a reconnect
+      return this.chronikWs.close();
+    }
+    this.wsNeedsResync = false;
+  };
+  /** Reconnect with exponential backoff unless we were closed manually */
+  private _chronikHandleWsEnd = () => {
+    if (this.wsClosed) {
+      return this._setWsState('closed');
+    }
+    this.wsNeedsResync = true;
+    const delay = Math.min(
+      CHRONIK.WS_RECONNECT_DELAY * 2 ** this.wsReconnectAttempts,
+      CHRONIK.WS_RECONNECT_DELAY_MAX
+    );
+    this.wsReconnectAttempts++;
+    this._setWsState('disconnected', delay);
+    this.wsReconnectTimeout = setTimeout(() => {
+      this.chronikWs = this._openWsEndpoint();
+    }, delay);
+  };
+  private _setWsState = (
+    state: WsState,
+    reconnectDelay?: number
+  ) => {
+    this.wsState = state;
+    if (state == 'disconnected') {
+      log.warn(`chronik ws disconnected`, { reconnectDelay });
+    } else {
+      log.info(`chronik ws ${state}`);
+    }
+    this.emit('WsState', state, reconnectDelay);
+  };
+  /**
+   * Fetch the UTXOs of every `WalletKey` to catch up on WS messages missed
+   * while disconnected:
+   * - new UTXOs are processed the same as `AddedToMempool`
+   * - UTXOs mined in the meantime are processed as `Confirmed`  
+   * Keys that fail are logged and skipped; return the number of such keys
+   */
+  private _resyncUtxos = async () => {
+    let failed = 0;
+    for (const userId of Object.keys(this.keys)) {
+      try {
+        await this.resyncUtxos(userId);
+      } catch (e: any) {
+        failed++;
+        log.error('_resyncUtxos failed', { userId, error: e.message });
+      }
+    }
+    return failed;
+  };
+  /**
+   * Detect and process Chronik WS messages  
+   * Errors are logged rather than thrown, since chronik-client does not catch
+   * them; reconnecting resyncs the UTXOs to catch up on the failed message
+   */
   private _chronikHandleWsMessage = async (
     msg: SubscribeMsg
   ) => {
     try {
-      if (msg.type != 'AddedToMempool') {
-        return;
+      switch (msg.type) {
+        case 'AddedToMempool':
+          return await this._chronikHandleAddedToMempool(msg.txid);
+        case 'Confirmed':
+          return await this._chronikHandleConfirmed(msg.txid);
+        case 'BlockConnected':
+          return await this._chronikHandleBlockConnected(msg.blockHash);
+        case 'RemovedFromMempool':
+          return this._chronikHandleRemovedFromMempool(msg.txid);
+        case 'BlockDisconnected':
+          return await this._chronikHandleBlockDisconnected();
       }
-      const { outputs } = await this.chronik.tx(msg.txid);
-      const outScripts = outputs.map(output => output.outputScript);
-      // process each tx output
-      for (let i = 0; i < outScripts.length; i++) {
-        const scriptHex = outScripts[i];
-        // find userId/key matching output scriptHex
-        for (const userIds of Object.values(this.accounts)) {
-          const userId = userIds.find(userId => {
-            const userScriptHex = this.keys[userId].script.toHex();
-            if (scriptHex == userScriptHex) {
-              return true;
-            }
-          });
-          if (!userId) {
-            continue;
-          }
-          // found our userId/key; save utxo
-          const parsedUtxo = {
-            txid: msg.txid,
-            outIdx: i,
-            value: outputs[i].value,
-          };
-          /**
-           * Give transactions generate duplicate Chronik WS messages.
-           * This conditional ensures we do not save duplicate UTXOs
-           */
-          if (this._isExistingUtxo(userId, parsedUtxo)) {
+    } catch (e: any) {
+      log.error('_chronikHandleWsMessage failed', {
+        type: msg.type,
+        error: e.message
+      });
+      // closing triggers `_chronikHandleWsEnd`, which schedules a reconnect
+      this.chronikWs.close();
+    }
+  };
+  /** Save any tx outputs paying to our `WalletKey`s as new UTXOs */
+  private _chronikHandleAddedToMempool = async (
+    txid: string
+  ) => {
+    const { outputs } = await this.chronik.tx(txid);
+    // process each tx output
+    for (let i = 0; i < outputs.length; i++) {
+      // find userId/key matching output scriptHex
+      const userId = this._getUserIdFromOutputScript(outputs[i].outputScript);
+      if (!userId) {
+        continue;
+      }
+      // found our userId/key; save utxo
+      const parsedUtxo = {
+        txid,
+        outIdx: i,
+        value: outputs[i].value,
+        blockHeight: -1,
+        outputScript: outputs[i].outputScript
+      };
+      /**
+       * Give transactions generate duplicate Chronik WS messages.
+       * This conditional ensures we do not save duplicate UTXOs
+       */
+      if (this._isExistingUtxo(userId, parsedUtxo)) {
+        continue;
+      }
+      this.keys[userId].utxos.push(parsedUtxo);
+      this._rotateKeyScripts(userId, parsedUtxo.outputScript);
+      this.emit('AddedToMempool', this._toAccountUtxo(parsedUtxo, userId));
+    }
+  };
+  /** Set the block height of the tx's UTXOs and notify of confirmation */
+  private _chronikHandleConfirmed = async (
+    txid: string
+  ) => {
+    const { block } = await this.chronik.tx(txid);
+    if (!block) {
+      return;
+    }
+    this._setUtxosBlockHeight(txid, block.height);
+    this.emit('Confirmed', { txid, blockHeight: block.height });
+  };
+  /**
+   * Confirm any of our unconfirmed UTXOs that were mined in the block  
+   * Catches confirmations for which we missed the `Confirmed` message
+   */
+  private _chronikHandleBlockConnected = async (
+    blockHash: string
+  ) => {
+    const { blockInfo, txs } = await this.chronik.block(blockHash);
+    const unconfirmed = this.getUtxos().filter(utxo => utxo.blockHeight < 0);
+    for (const tx of txs || []) {
+      if (!unconfirmed.find(utxo => utxo.txid == tx.txid)) {
+        continue;
+      }
+      this._setUtxosBlockHeight(tx.txid, blockInfo.height);
+      this.emit('Confirmed', { txid: tx.txid, blockHeight: blockInfo.height });
+    }
+  };
+  /**
+   * Remove the tx's UTXOs (e.g. tx expired or was double-spent)  
+   * `Reverted` is emitted even if none were ours, e.g. for a withdrawal
+   * without change, so that the inputs of our own txs are restored
+   */
+  private _chronikHandleRemovedFromMempool = (
+    txid: string
+  ) => {
+    const utxos = this._removeUtxos(txid);
+    this.emit('Reverted', { txid, utxos });
+  };
+  /**
+   * Validate all in-memory UTXOs after a block is disconnected:
+   * - UTXOs whose tx no longer exists are removed
+   * - UTXOs whose tx is no longer mined are set back to unconfirmed
+   */
+  private _chronikHandleBlockDisconnected = async () => {
+    const revertedTxids: Set<string> = new Set();
+    const unconfirmedTxids: Set<string> = new Set();
+    for (const key of Object.values(this.keys)) {
+      const outpoints = key.utxos.map(utxo => WalletManager.toOutpoint(utxo));
+      const result = await this.chronik.validateUtxos(outpoints);
+      key.utxos.forEach((utxo, i) => {
+        switch (result[i].state) {
+          case 'NO_SUCH_TX':
+          case 'NO_SUCH_OUTPUT':
+            revertedTxids.add(utxo.txid);
             break;
-          }
-          this.keys[userId].utxos.push(parsedUtxo);
-          this.emit('AddedToMempool', { ...parsedUtxo, userId });
-          break;
+          default:
+            if (utxo.blockHeight >= 0 && !result[i].isConfirmed) {
+              unconfirmedTxids.add(utxo.txid);
+            }
         }
-      }
-    } catch (e: any) {
-      throw new Error(`_chronikHandleWsMessage: ${e.message}`);
+      });
+    }
+    for (const txid of unconfirmedTxids) {
+      this._setUtxosBlockHeight(txid, -1);
+      this.emit('Unconfirmed', txid);
+    }
+    for (const txid of revertedTxids) {
+      this._chronikHandleRemovedFromMempool(txid);
+    }
+  };
+  /** Find the `userId` whose `WalletKey` derived `outputScript` */
+  private _getUserIdFromOutputScript = (
+    outputScript: string
+  ) => this.scriptUserIds[outputScript];
+  /** Remove and return all in-memory UTXOs created by `txid` */
+  private _removeUtxos = (
+    txid: string
+  ) => {
+    const removed: AccountUtxo[] = [];
+    for (const [ userId, key ] of Object.entries(this.keys)) {
+      removed.push(
+        ...key.utxos
+          .filter(utxo => utxo.txid == txid)
+          .map(utxo => this._toAccountUtxo(utxo, userId))
+      );
+      key.utxos = key.utxos.filter(utxo => utxo.txid != txid);
+    }
+    return removed;
+  };
+  /** Update the `blockHeight` of all in-memory UTXOs created by `txid` */
+  private _setUtxosBlockHeight = (
+    txid: string,
+    blockHeight: number
+  ) => {
+    for (const key of Object.values(this.keys)) {
+      key.utxos
+        .filter(utxo => utxo.txid == txid)
+        .forEach(utxo => utxo.blockHeight = blockHeight);
     }
   };
   /** Return the Chronik `ScriptType` from provided `Address` */
@@ -394,12 +1151,21 @@ export class WalletManager extends EventEmitter {
         return 'other';
     };
   };
-  private _toParsedUtxo = (
-    utxo: Utxo
-  ) => {
+  private _toKeyUtxo = (
+    utxo: Utxo,
+    outputScript: string
+  ): KeyUtxo => {
     const { txid, outIdx } = utxo.outpoint;
-    const { value } = utxo;
-    return { txid, outIdx, value };
+    const { value, blockHeight } = utxo;
+    return { txid, outIdx, value, blockHeight, outputScript };
+  };
+  /** Omit the internal fields of `utxo` and add the `userId` it belongs to */
+  private _toAccountUtxo = (
+    utxo: KeyUtxo,
+    userId: string
+  ): AccountUtxo => {
+    const { outputScript, ...accountUtxo } = utxo;
+    return { ...accountUtxo, userId };
   };
   /** Create Bitcore-compatible P2PKH `Transaction.Input` */
   private _toPKHInput = (
@@ -434,10 +1200,55 @@ export class WalletManager extends EventEmitter {
   static newHDPrivateKey = (
     mnemonic: Mnemonic
   ) => HDPrivateKey.fromSeed(mnemonic.toSeed());
-  /** Instantiate Prisma HDPrivateKey buffer as `HDPrivateKey` */
+  /**
+   * Instantiate Prisma HDPrivateKey buffer as `HDPrivateKey`  
+   * The buffer is decrypted first if the WalletKey has a `dataKey`
+   */
   static hdPrivKeyFromBuffer = (
-    hdPrivKeyBuf: Buffer
-  ) => new HDPrivateKey(hdPrivKeyBuf);
+    hdPrivKeyBuf: Buffer,
+    dataKey?: string
+  ) => new HDPrivateKey(
+    dataKey ? WalletManager._decrypt(hdPrivKeyBuf, dataKey) : hdPrivKeyBuf
+  );
+  /** Get the plaintext mnemonic of a WalletKey */
+  static decryptMnemonic = (
+    mnemonic: string,
+    dataKey?: string
+  ) => dataKey
+    ? WalletManager._decrypt(Buffer.from(mnemonic, 'base64'), dataKey)
+      .toString()
+    : mnemonic;
+  /**
+   * Encrypt the mnemonic and HDPrivateKey of a WalletKey with a new data key  
+   * Left in plaintext, without `dataKey`, if no master key is configured
+   */
+  static encryptWalletKey = (
+    mnemonic: string,
+    hdPrivKey: string
+  ) => {
+    if (!config.wallet.masterKey) {
+      return { mnemonic, hdPrivKey: Buffer.from(hdPrivKey), dataKey: null };
+    }
+    const masterKey = Crypto.parseKey(config.wallet.masterKey);
+    const dataKey = Crypto.newKey();
+    return {
+      mnemonic: Crypto.encrypt(dataKey, Buffer.from(mnemonic))
+        .toString('base64'),
+      hdPrivKey: Crypto.encrypt(dataKey, Buffer.from(hdPrivKey)),
+      dataKey: Crypto.wrapKey(masterKey, dataKey)
+    };
+  };
+  /** Decrypt WalletKey data with its master-key-encrypted `dataKey` */
+  private static _decrypt = (
+    data: Buffer,
+    dataKey: string
+  ) => {
+    if (!config.wallet.masterKey) {
+      throw new Error(`wallet is encrypted but no master key is configured`);
+    }
+    const masterKey = Crypto.parseKey(config.wallet.masterKey);
+    return Crypto.decrypt(Crypto.unwrapKey(masterKey, dataKey), data);
+  };
   static toOutpoint = (
     utxo: ParsedUtxo
   ): OutPoint => {
@@ -446,10 +1257,12 @@ export class WalletManager extends EventEmitter {
       outIdx: utxo.outIdx
     };
   };
+  /** Whether `utxo` may be used as an input for Give/Withdraw txs */
+  static isSpendableUtxo = (
+    utxo: ParsedUtxo
+  ) => config.wallet.tx.spendUnconfirmed || utxo.blockHeight >= 0;
   static isValidAddress = (
     address: string
   ) => Address.isValid(address);
-  static WITHDRAW_CHANGE_OUTIDX = 1;
-  static GIVE_CHANGE_OUTIDX = 1;
 
 };
\ No newline at end of file
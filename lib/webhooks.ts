@@ -0,0 +1,162 @@
+import { Database } from './database';
+import { Handler } from './handler';
+import { WEBHOOK } from '../util/constants';
+import { signWebhook } from '../util/crypto';
+import * as Util from '../util';
+import logger from '../util/logger';
+
+const log = logger.child({ module: 'webhooks' });
+
+const {
+  EVENTS,
+  POLL_INTERVAL,
+  BATCH_SIZE,
+  TIMEOUT,
+  RETRY_DELAY,
+  RETRY_DELAY_MAX,
+  MAX_ATTEMPTS
+} = WEBHOOK;
+
+type DueDelivery = Awaited<
+  ReturnType<Database['getDueWebhookDeliveries']>
+>[number];
+
+/**
+ * Outgoing webhooks  
+ * Queues a delivery to every registered webhook for each `Handler` event in
+ * `WEBHOOK.EVENTS`, then POSTs the JSON payloads, retrying failed deliveries
+ * with exponential backoff  
+ * Payloads are signed with the webhook secret; see `signWebhook`
+ */
+export class Webhooks {
+  private handler: Handler;
+  private prisma: Database;
+  private timer: NodeJS.Timeout;
+  /** Set while a delivery run is in progress */
+  private delivering: Promise<void>;
+
+  constructor(
+    handler: Handler,
+    prisma: Database
+  ) {
+    this.handler = handler;
+    this.prisma = prisma;
+    for (const event of EVENTS) {
+      this.handler.on(event, (data: object) => this._enqueue(event, data));
+    }
+  };
+  /** Start delivering queued payloads */
+  init = () => {
+    this.timer = setInterval(this._deliverDue, POLL_INTERVAL);
+  };
+  /** Stop delivering; waits for the current run to finish */
+  close = async () => {
+    clearInterval(this.timer);
+    await this.delivering;
+  };
+  /** Queue the `event` payload for every webhook subscribed to it */
+  private _enqueue = async (
+    event: string,
+    data: object
+  ) => {
+    try {
+      const webhooks = (await this.prisma.getWebhooks()).filter(webhook => {
+        return !webhook.events || webhook.events.split(',').includes(event);
+      });
+      if (webhooks.length < 1) {
+        return;
+      }
+      const timestamp = new Date();
+      await this.prisma.saveWebhookDeliveries(webhooks.map(webhook => {
+        const id = Util.newUUID();
+        return {
+          id,
+          webhookId: webhook.id,
+          event,
+          payload: JSON.stringify({ id, event, timestamp, data }),
+          timestamp
+        };
+      }));
+    } catch (e: any) {
+      log.error('failed to queue deliveries', { event, error: e.message });
+    }
+  };
+  /** Attempt the due deliveries, unless a run is already in progress */
+  private _deliverDue = () => {
+    if (this.delivering) {
+      return;
+    }
+    this.delivering = (async () => {
+      try {
+        const deliveries = await this.prisma.getDueWebhookDeliveries(
+          new Date(),
+          BATCH_SIZE
+        );
+        for (const delivery of deliveries) {
+          await this._deliver(delivery);
+        }
+      } catch (e: any) {
+        log.error('_deliverDue failed', { error: e.message });
+      } finally {
+        this.delivering = undefined;
+      }
+    })();
+  };
+  /** Attempt `delivery` once and schedule a retry if it fails */
+  private _deliver = async (
+    delivery: DueDelivery
+  ) => {
+    const { id, event, payload, webhook } = delivery;
+    const attempts = delivery.attempts + 1;
+    const fields = { delivery: id, event, url: webhook.url, attempts };
+    try {
+      await this._post(webhook.url, webhook.secret, id, event, payload);
+    } catch (e: any) {
+      const failed = attempts >= MAX_ATTEMPTS;
+      const delay = Math.min(RETRY_DELAY * 2 ** (attempts - 1), RETRY_DELAY_MAX);
+      await this.prisma.updateWebhookDelivery(id, {
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        nextAttempt: new Date(Date.now() + delay),
+        lastError: e.message
+      });
+      log.warn(failed ? 'delivery failed; giving up' : 'delivery failed', {
+        ...fields,
+        error: e.message
+      });
+      return;
+    }
+    await this.prisma.updateWebhookDelivery(id, {
+      status: 'delivered',
+      attempts,
+      deliveredAt: new Date()
+    });
+    log.info('delivered', fields);
+  };
+  /** POST the signed `payload`; throws unless the response is 2xx */
+  private _post = async (
+    url: string,
+    secret: string,
+    id: string,
+    event: string,
+    payload: string
+  ) => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-LotusBot-Event': event,
+        'X-LotusBot-Delivery': id,
+        'X-LotusBot-Timestamp': timestamp,
+        'X-LotusBot-Signature':
+          `sha256=${signWebhook(secret, timestamp, payload)}`
+      },
+      body: payload,
+      signal: AbortSignal.timeout(TIMEOUT)
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { writeFile } from 'node:fs/promises';
+import { Database } from './lib/database';
+import { Reserves } from './lib/reserves';
+import { WalletManager } from './lib/wallet';
+
+/**
+ * Proof-of-reserves report, e.g. for cron
+ * - `json <file>`: write the full report to `file` as JSON
+ * - `csv <file>`: write one row per account to `file` as CSV
+ * Exits with code 2 if the wallet is insolvent or any account is flagged
+ */
+const [ format, file ] = process.argv.slice(2);
+
+const main = async () => {
+  if (format != 'json' && format != 'csv') {
+    throw new Error(`unknown format: ${format}; usage: <json|csv> <file>`);
+  } else if (!file) {
+    throw new Error('usage: <json|csv> <file>');
+  }
+  const prisma = new Database();
+  await prisma.connect();
+  const wallet = new WalletManager();
+  try {
+    await wallet.init(await prisma.getUserWalletKeys());
+    const report = await new Reserves(prisma, wallet).getReport();
+    await writeFile(file, format == 'csv'
+      ? Reserves.toCsv(report)
+      : JSON.stringify(report, null, 2) + '\n'
+    );
+    console.log(
+      `${report.solvent ? 'solvent' : 'INSOLVENT'}: ` +
+      `${report.utxos} XPI in UTXOs, ${report.expected} XPI expected, ` +
+      `${report.flagged} of ${report.accounts.length} accounts flagged`
+    );
+    if (!report.solvent || report.flagged > 0) {
+      process.exitCode = 2;
+    }
+  } finally {
+    wallet.closeWsEndpoint();
+    await prisma.disconnect();
+  }
+};
+
+main().catch((e: Error) => {
+  console.log(`RESERVES: ${e.message}`);
+  process.exitCode = 1;
+});
\ No newline at end of file
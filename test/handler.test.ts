@@ -0,0 +1,284 @@
+import { EventEmitter } from 'events';
+import { Handler } from '../lib/handler';
+import { Database } from '../lib/database';
+import { WalletManager } from '../lib/wallet';
+import { PrivateKey } from '../local_modules/bitcore-lib-xpi';
+import config from '../config';
+
+type FakeTx = {
+  txid: string,
+  outputs: Array<{ satoshis: number }>,
+  inputAmount: number,
+  outputAmount: number
+};
+
+const FEE = 500;
+
+/** In-memory stand-in for the Prisma-backed `Database` */
+class FakeDatabase {
+  gives: any[] = [];
+  withdrawals: any[] = [];
+  auditLogs: any[] = [];
+  idempotencyKeys: { [key: string]: string | undefined } = {};
+
+  isValidUser = async (platform: string, platformId: string) => true;
+  getIds = async (platform: string, platformId: string) => ({
+    accountId: `account-${platformId}`,
+    userId: `user-${platformId}`
+  });
+  isAccountFrozen = async (accountId: string) => false;
+  saveGive = async (data: any) => { this.gives.push(data) };
+  saveGives = async (data: any[]) => { this.gives.push(...data) };
+  deleteGive = async (txid: string) => {
+    this.gives = this.gives.filter(give => give.txid != txid);
+  };
+  saveWithdrawal = async (data: any) => { this.withdrawals.push(data) };
+  deleteWithdrawal = async (txid: string) => {
+    this.withdrawals = this.withdrawals.filter(w => w.txid != txid);
+  };
+  deleteLedgerEntries = async (txid: string) => {};
+  getAccountWithdrawalTotal = async (accountId: string, since: Date) => {
+    return this.withdrawals.reduce((sats, w) => sats + Number(w.value), 0);
+  };
+  saveAuditLog = async (data: any) => { this.auditLogs.push(data) };
+  deleteIdempotencyKeys = async (timestamp: Date) => {};
+  claimIdempotencyKey = async (key: string) => {
+    if (key in this.idempotencyKeys) {
+      return false;
+    }
+    this.idempotencyKeys[key] = undefined;
+    return true;
+  };
+  getIdempotencyKeyResult = async (key: string) => {
+    const result = this.idempotencyKeys[key];
+    return typeof result == 'string' ? JSON.parse(result) : undefined;
+  };
+  saveIdempotencyKeyResult = async (key: string, result: any) => {
+    this.idempotencyKeys[key] = JSON.stringify(result);
+  };
+  deleteIdempotencyKey = async (key: string) => {
+    delete this.idempotencyKeys[key];
+  };
+}
+
+/** Wallet that records broadcasts instead of sending them */
+class FakeWallet extends EventEmitter {
+  broadcasts: FakeTx[] = [];
+  /** Holds `broadcastTx` until resolved, if set */
+  broadcastGate: Promise<void> | undefined;
+  private txCount = 0;
+  private locks: { [accountId: string]: Promise<void> } = {};
+
+  lockAccount = async (accountId: string) => {
+    const previous = this.locks[accountId] ?? Promise.resolve();
+    let release: () => void;
+    const lock = new Promise<void>(resolve => release = resolve);
+    this.locks[accountId] = previous.then(() => lock);
+    await previous;
+    return release;
+  };
+  getSpendableBalance = async (accountId: string) => 1_000_000_000;
+  isAccountAddress = (accountId: string, address: string) => false;
+  getAccountUserIds = (accountId: string) => [ `user-${accountId}` ];
+  genTx = async ({ sats }: { sats: number }) => this.newTx([ sats ]);
+  genRainTx = async ({ toUserIds, sats }: {
+    toUserIds: string[],
+    sats: number
+  }) => this.newTx(toUserIds.map(() => sats));
+  broadcastTx = async (tx: FakeTx) => {
+    await this.broadcastGate;
+    this.broadcasts.push(tx);
+    return tx.txid;
+  };
+  releaseTx = (tx: FakeTx) => {};
+
+  private newTx = (outputs: number[]): FakeTx => {
+    const outputAmount = outputs.reduce((total, sats) => total + sats, 0);
+    return {
+      txid: (++this.txCount).toString(16).padStart(64, '0'),
+      outputs: outputs.map(satoshis => ({ satoshis })),
+      inputAmount: outputAmount + FEE,
+      outputAmount
+    };
+  };
+}
+
+describe('Handler idempotency', () => {
+  let prisma: FakeDatabase;
+  let wallet: FakeWallet;
+  let handler: Handler;
+
+  beforeEach(() => {
+    prisma = new FakeDatabase();
+    wallet = new FakeWallet();
+    handler = new Handler(
+      <Database><unknown>prisma,
+      <WalletManager><unknown>wallet
+    );
+  });
+
+  it('gives once for a repeated key', async () => {
+    const give = () => handler.processGiveCommand(
+      'telegram', '1', 'alice', '2', 'bob', '100', '-10', 'give-1'
+    );
+    const first = await give();
+    const second = await give();
+    expect(typeof first).not.toBe('string');
+    expect(second).toEqual(first);
+    expect(prisma.gives).toHaveLength(1);
+    expect(wallet.broadcasts).toHaveLength(1);
+  });
+
+  it('rains once for a repeated key', async () => {
+    const recipients = [
+      { platformId: '2', username: 'bob' },
+      { platformId: '3', username: 'carol' }
+    ];
+    const rain = () => handler.processRainCommand(
+      'telegram', '1', 'alice', recipients, '100', false, '-10', 'rain-1'
+    );
+    const first = await rain();
+    const second = await rain();
+    expect(typeof first).not.toBe('string');
+    expect(second).toEqual(first);
+    // One row per recipient, all of the same tx
+    expect(prisma.gives).toHaveLength(recipients.length);
+    expect(new Set(prisma.gives.map(give => give.txid)).size).toBe(1);
+    expect(wallet.broadcasts).toHaveLength(1);
+  });
+
+  it('withdraws once for a repeated confirm key', async () => {
+    const outAddress = new PrivateKey().toAddress().toXAddress();
+    const preview = await handler.processWithdrawPreview(
+      'telegram', '1', '100', outAddress
+    );
+    if (typeof preview == 'string' || !('withdrawalId' in preview)) {
+      throw new Error(`unexpected preview: ${JSON.stringify(preview)}`);
+    }
+    const confirm = () => handler.processWithdrawConfirm(
+      'telegram', '1', preview.withdrawalId, 'confirm-1'
+    );
+    const first = await confirm();
+    const second = await confirm();
+    expect(typeof first).not.toBe('string');
+    expect(second).toEqual(first);
+    expect(prisma.withdrawals).toHaveLength(1);
+    expect(wallet.broadcasts).toHaveLength(1);
+  });
+
+  it('rejects a key that is still being processed', async () => {
+    let open: () => void;
+    wallet.broadcastGate = new Promise(resolve => open = resolve);
+    const give = () => handler.processGiveCommand(
+      'telegram', '1', 'alice', '2', 'bob', '100', '-10', 'give-2'
+    );
+    const first = give();
+    await expect(give()).rejects.toThrow('command is already being processed');
+    open();
+    const result = await first;
+    // The key is released for retries only if the command fails
+    await expect(give()).resolves.toEqual(result);
+    expect(prisma.gives).toHaveLength(1);
+    expect(wallet.broadcasts).toHaveLength(1);
+  });
+
+  it('releases the key of a failed command for a retry', async () => {
+    wallet.broadcastTx = async (tx: FakeTx) => {
+      throw new Error('network unreachable');
+    };
+    const give = () => handler.processGiveCommand(
+      'telegram', '1', 'alice', '2', 'bob', '100', '-10', 'give-3'
+    );
+    await expect(give()).rejects.toThrow('broadcast failed');
+    expect(prisma.gives).toHaveLength(0);
+    expect('give-3' in prisma.idempotencyKeys).toBe(false);
+  });
+});
+
+describe('Handler give limits', () => {
+  let time: number;
+  let wallet: FakeWallet;
+  let handler: Handler;
+  const give = (fromId: string, chatId = '-10') => handler.processGiveCommand(
+    'telegram', fromId, 'alice', '9', 'bob', '100', chatId
+  );
+
+  beforeEach(() => {
+    time = 1_000_000;
+    wallet = new FakeWallet();
+    handler = new Handler(
+      <Database><unknown>new FakeDatabase(),
+      <WalletManager><unknown>wallet,
+      () => time
+    );
+  });
+
+  it('limits the gives of an account until the window passes', async () => {
+    await give('1');
+    await give('1');
+    expect(await give('1')).toMatch(/^too many gives/);
+    expect(typeof await give('2')).not.toBe('string');
+    time += 60_000;
+    expect(typeof await give('1')).not.toBe('string');
+  });
+
+  it('limits the gives in a chat', async () => {
+    await give('1');
+    await give('2');
+    await give('3');
+    expect(await give('4')).toMatch(/^too many gives/);
+    expect(typeof await give('4', '-20')).not.toBe('string');
+  });
+
+  it('does not count failed gives', async () => {
+    const getSpendableBalance = wallet.getSpendableBalance;
+    wallet.getSpendableBalance = async (accountId: string) => 0;
+    await expect(give('1')).rejects.toThrow('insufficient balance');
+    await expect(give('1')).rejects.toThrow('insufficient balance');
+    wallet.getSpendableBalance = getSpendableBalance;
+    expect(typeof await give('1')).not.toBe('string');
+    expect(typeof await give('1')).not.toBe('string');
+    expect(wallet.broadcasts).toHaveLength(2);
+  });
+});
+
+describe('Handler withdraw limits', () => {
+  const { withdrawPerDay } = config.limits;
+  let prisma: FakeDatabase;
+  let handler: Handler;
+
+  beforeEach(() => {
+    config.limits.withdrawPerDay = 150;
+    prisma = new FakeDatabase();
+    // Linked users share one account
+    prisma.getIds = async (platform: string, platformId: string) => ({
+      accountId: 'account-linked',
+      userId: `user-${platformId}`
+    });
+    handler = new Handler(
+      <Database><unknown>prisma,
+      <WalletManager><unknown>new FakeWallet()
+    );
+  });
+
+  afterEach(() => {
+    config.limits.withdrawPerDay = withdrawPerDay;
+  });
+
+  it('checks the daily limit of linked users one at a time', async () => {
+    const outAddress = new PrivateKey().toAddress().toXAddress();
+    for (const platformId of [ '1', '2' ]) {
+      const preview = await handler.processWithdrawPreview(
+        'telegram', platformId, '100', outAddress
+      );
+      expect(preview).toHaveProperty('withdrawalId');
+    }
+    const results = await Promise.all([ '1', '2' ].map(platformId => {
+      return handler.processWithdrawConfirm('telegram', platformId);
+    }));
+    expect(results.filter(result => typeof result == 'string')).toEqual([
+      'daily withdraw limit is 150 XPI; 50 XPI remaining'
+    ]);
+    expect(prisma.withdrawals).toHaveLength(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { RateLimiter } from '../util/ratelimit';
+
+describe('RateLimiter', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 1_000_000;
+  });
+
+  it('allows up to `limit` hits per window', () => {
+    const limiter = new RateLimiter(3, 60_000, now);
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.retryAfter('a')).toBe(0);
+      limiter.hit('a');
+      time += 1_000;
+    }
+    // The oldest hit leaves the window 60s after it was made
+    expect(limiter.retryAfter('a')).toBe(57_000);
+  });
+
+  it('keeps the hits of each key apart', () => {
+    const limiter = new RateLimiter(1, 60_000, now);
+    limiter.hit('a');
+    expect(limiter.retryAfter('a')).toBe(60_000);
+    expect(limiter.retryAfter('b')).toBe(0);
+  });
+
+  it('slides the window as hits expire', () => {
+    const limiter = new RateLimiter(2, 60_000, now);
+    limiter.hit('a');
+    time += 30_000;
+    limiter.hit('a');
+    expect(limiter.retryAfter('a')).toBe(30_000);
+    time += 30_000;
+    // The first hit expired; the second is still in the window
+    expect(limiter.retryAfter('a')).toBe(0);
+    limiter.hit('a');
+    expect(limiter.retryAfter('a')).toBe(30_000);
+    time += 60_000;
+    expect(limiter.retryAfter('a')).toBe(0);
+  });
+
+  it('is disabled by a limit below 1', () => {
+    const limiter = new RateLimiter(0, 60_000, now);
+    for (let i = 0; i < 100; i++) {
+      limiter.hit('a');
+    }
+    expect(limiter.retryAfter('a')).toBe(0);
+  });
+});
\ No newline at end of file
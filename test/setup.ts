@@ -0,0 +1,10 @@
+// Set before `config` is imported; dotenv won't override a local .env
+process.env.LOG_LEVEL = 'error';
+process.env.WALLET_LEDGER = 'false';
+process.env.WITHDRAW_FEE_ADDRESS = '';
+process.env.WITHDRAW_LIMIT_TX = '0';
+process.env.WITHDRAW_LIMIT_DAY = '0';
+process.env.WITHDRAW_APPROVAL = '0';
+process.env.GIVE_LIMIT_USER = '2';
+process.env.GIVE_LIMIT_CHAT = '3';
+process.env.GIVE_LIMIT_WINDOW = '60';
\ No newline at end of file
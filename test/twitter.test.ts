@@ -0,0 +1,198 @@
+import { TweetV2, UserV2 } from 'twitter-api-v2';
+import { Handler } from '../lib/handler';
+import {
+  Twitter,
+  TwitterClient,
+  TwitterDirectMessage
+} from '../lib/platforms/twitter';
+
+const BOT_ID = '100';
+const POLL_INTERVAL = 15000;
+
+/** Local `TwitterClient`; mentions and DMs are kept newest first */
+class StubTwitterClient
+implements TwitterClient {
+  mentions: TweetV2[] = [];
+  users: UserV2[] = [];
+  messages: TwitterDirectMessage[] = [];
+  replies: Array<{ tweetId: string, text: string }> = [];
+  sent: Array<{ userId: string, text: string }> = [];
+
+  getBotId = async () => BOT_ID;
+  getMentions = async (userId: string, sinceId?: string) => ({
+    tweets: this.mentions.filter(
+      tweet => !sinceId || BigInt(tweet.id) > BigInt(sinceId)
+    ),
+    users: this.users
+  });
+  getDirectMessages = async (sinceId?: string) => this.messages;
+  reply = async (text: string, tweetId: string) => {
+    this.replies.push({ tweetId, text });
+  };
+  sendDirectMessage = async (userId: string, text: string) => {
+    this.sent.push({ userId, text });
+  };
+
+  mention = (id: string, fromId: string, toId: string, text: string) => {
+    this.mentions.unshift(<TweetV2>{
+      id,
+      text,
+      author_id: fromId,
+      in_reply_to_user_id: toId
+    });
+  };
+  message = (id: string, senderId: string, text: string) => {
+    this.messages.unshift({ id, senderId, text });
+  };
+}
+
+/** `Handler` with only the methods used by the Twitter bot */
+const newHandler = (cursors: { [name: string]: string } = {}) => ({
+  getPollCursor: jest.fn(async (name: string) => cursors[name]),
+  savePollCursor: jest.fn(async (name: string, value: string) => {
+    cursors[name] = value;
+  }),
+  processGiveCommand: jest.fn(async () => ({
+    txid: 'ab'.repeat(32),
+    amount: '100',
+    onChain: true
+  })),
+  processBalanceCommand: jest.fn(async () => ({
+    total: '10',
+    spendable: '8',
+    confirmed: '6',
+    unconfirmed: '2',
+    locked: '2',
+    ledger: '0'
+  })),
+  processDepositCommand: jest.fn(async () => 'lotus_16PSJdeposit'),
+  processWithdrawPreview: jest.fn(async () => ({
+    withdrawalId: 'w1',
+    amount: '5',
+    fee: '0.01',
+    serviceFee: '0',
+    total: '5.01'
+  })),
+  processWithdrawConfirm: jest.fn(async () => ({
+    txid: 'cd'.repeat(32),
+    amount: '5'
+  }))
+});
+
+describe('Twitter', () => {
+  let client: StubTwitterClient;
+  let twitter: Twitter;
+
+  const start = async (handler: ReturnType<typeof newHandler>) => {
+    twitter = new Twitter(<Handler><unknown>handler, client);
+    await twitter.setup('key');
+    await twitter.launch();
+  };
+  const poll = () => jest.advanceTimersByTimeAsync(POLL_INTERVAL);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    client = new StubTwitterClient();
+    client.users = [
+      { id: '1', name: 'Alice', username: 'alice' },
+      { id: '2', name: 'Bob', username: 'bob' }
+    ];
+  });
+
+  afterEach(async () => {
+    await twitter.stop();
+    jest.useRealTimers();
+  });
+
+  it('gives from a mention replying to another user', async () => {
+    const handler = newHandler();
+    await start(handler);
+    client.mention('500', '1', '2', '@bot give 100');
+    await poll();
+    expect(handler.processGiveCommand).toHaveBeenCalledWith(
+      'twitter', '1', 'alice', '2', 'bob', '100', undefined, 'twitter:500'
+    );
+    expect(client.replies).toHaveLength(1);
+    expect(client.replies[0].tweetId).toBe('500');
+    expect(client.replies[0].text).toMatch(/given 100 XPI to @bob/);
+    expect(handler.savePollCursor).toHaveBeenCalledWith(
+      'twitter:mentions',
+      '500'
+    );
+  });
+
+  it('replies with the balance to a DM', async () => {
+    const handler = newHandler();
+    await start(handler);
+    client.message('600', '1', 'balance');
+    await poll();
+    expect(handler.processBalanceCommand).toHaveBeenCalledWith('twitter', '1');
+    expect(client.sent).toHaveLength(1);
+    expect(client.sent[0].userId).toBe('1');
+    expect(client.sent[0].text).toMatch(/10/);
+  });
+
+  it('replies with the deposit address to a DM', async () => {
+    const handler = newHandler();
+    await start(handler);
+    client.message('600', '1', 'deposit');
+    await poll();
+    expect(handler.processDepositCommand).toHaveBeenCalledWith('twitter', '1');
+    expect(client.sent[0].text).toMatch(/lotus_16PSJdeposit/);
+  });
+
+  it('previews and confirms a withdrawal by DM', async () => {
+    const handler = newHandler();
+    await start(handler);
+    client.message('600', '1', 'withdraw 5 lotus_16PSJexternal');
+    client.message('601', '1', 'confirm');
+    await poll();
+    expect(handler.processWithdrawPreview).toHaveBeenCalledWith(
+      'twitter', '1', '5', 'lotus_16PSJexternal', 'twitter:600'
+    );
+    expect(handler.processWithdrawConfirm).toHaveBeenCalledWith(
+      'twitter', '1', undefined, 'twitter:601'
+    );
+    expect(client.sent).toHaveLength(2);
+    expect(client.sent[0].text).toMatch(/confirm/);
+    expect(client.sent[1].text).toMatch(/withdrawal of 5 XPI was successful/);
+    expect(handler.savePollCursor).toHaveBeenLastCalledWith(
+      'twitter:dms',
+      '601'
+    );
+  });
+
+  it('skips the history on the first launch', async () => {
+    client.mention('500', '1', '2', '@bot give 100');
+    client.message('600', '1', 'balance');
+    const handler = newHandler();
+    await start(handler);
+    await poll();
+    expect(handler.processGiveCommand).not.toHaveBeenCalled();
+    expect(handler.processBalanceCommand).not.toHaveBeenCalled();
+    expect(handler.savePollCursor).toHaveBeenCalledWith(
+      'twitter:mentions',
+      '500'
+    );
+    expect(handler.savePollCursor).toHaveBeenCalledWith('twitter:dms', '600');
+  });
+
+  it('resumes from the saved cursors after a restart', async () => {
+    client.mention('500', '1', '2', '@bot give 100');
+    client.mention('501', '2', '1', '@bot give 50');
+    client.message('600', '1', 'balance');
+    client.message('601', '2', 'balance');
+    const handler = newHandler({
+      'twitter:mentions': '500',
+      'twitter:dms': '600'
+    });
+    await start(handler);
+    await poll();
+    expect(handler.processGiveCommand).toHaveBeenCalledTimes(1);
+    expect(handler.processGiveCommand).toHaveBeenCalledWith(
+      'twitter', '2', 'bob', '1', 'alice', '50', undefined, 'twitter:501'
+    );
+    expect(handler.processBalanceCommand).toHaveBeenCalledTimes(1);
+    expect(handler.processBalanceCommand).toHaveBeenCalledWith('twitter', '2');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { randomBytes } from 'node:crypto';
+import { Database } from './lib/database';
+import { hashToken } from './util/crypto';
+import * as Util from './util';
+
+/**
+ * HTTP API token maintenance
+ * - `create <name>`: create a token for the integration `name`; the token is
+ *   only printed once
+ * - `revoke <name>`: revoke the token of `name`
+ * - `list`: list all tokens
+ */
+const [ command, name ] = process.argv.slice(2);
+
+const createToken = async (prisma: Database) => {
+  if (!name) {
+    throw new Error('usage: create <name>');
+  }
+  const token = randomBytes(32).toString('hex');
+  await prisma.saveApiToken({
+    id: Util.newUUID(),
+    name,
+    tokenHash: hashToken(token),
+    timestamp: new Date()
+  });
+  console.log(token);
+};
+
+const revokeToken = async (prisma: Database) => {
+  if (!name) {
+    throw new Error('usage: revoke <name>');
+  }
+  if (!await prisma.revokeApiToken(name)) {
+    throw new Error(`no active token: ${name}`);
+  }
+  console.log(`revoked token: ${name}`);
+};
+
+const listTokens = async (prisma: Database) => {
+  for (const token of await prisma.getApiTokens()) {
+    console.log(
+      `${token.name}: created ${token.timestamp.toISOString()}, ` +
+      `last used ${token.lastUsed?.toISOString() ?? 'never'}` +
+      (token.revoked ? ' (revoked)' : '')
+    );
+  }
+};
+
+const main = async () => {
+  const prisma = new Database();
+  await prisma.connect();
+  try {
+    switch (command) {
+      case 'create':
+        return await createToken(prisma);
+      case 'revoke':
+        return await revokeToken(prisma);
+      case 'list':
+        return await listTokens(prisma);
+      default:
+        throw new Error(`unknown command: ${command}`);
+    }
+  } finally {
+    await prisma.disconnect();
+  }
+};
+
+main().catch((e: Error) => {
+  console.log(`TOKENS: ${e.message}`);
+  process.exitCode = 1;
+});
\ No newline at end of file
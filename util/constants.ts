@@ -15,8 +15,24 @@ export const BOT = {
     GIVE:
       `%s, you have given %s XPI to %s! 🪷\r\n\r\n` +
       `[View tx on the Explorer](%s)`,
+    GIVE_OFFCHAIN: `%s, you have given %s XPI to %s! 🪷`,
+    GIVE_FAIL: `%s, there was an error processing your give: %s`,
     RECEIVE: `%s, you have received %s XPI from %s! 🪷`,
-    BALANCE: 'Your balance is %s XPI',
+    RAIN:
+      `%s, you have made it rain %s XPI on each of %s! 🪷\r\n\r\n` +
+      `[View tx on the Explorer](%s)`,
+    RAIN_OFFCHAIN: `%s, you have made it rain %s XPI on each of %s! 🪷`,
+    RAIN_FAIL: `%s, there was an error making it rain: %s`,
+    ERR_RAIN_NO_USERS: 'You must mention other users to make it rain.',
+    ERR_RAIN_UNKNOWN_USERS:
+      'I have not seen these users yet, so I cannot give to them: %s',
+    BALANCE:
+      `Your balance is %s XPI\r\n\r\n` +
+      `Available to spend: %s XPI\r\n` +
+      `Confirmed: %s XPI\r\n` +
+      `Unconfirmed: %s XPI\r\n` +
+      `Locked in pending withdrawals: %s XPI`,
+    BALANCE_LEDGER: `\r\nOff-chain ledger: %s XPI`,
     DEPOSIT:
       `Send Lotus here to fund your account: \`%s\`\r\n\r\n` +
       `[View address on the Explorer](%s)`,
@@ -28,40 +44,191 @@ export const BOT = {
       `Your deposit of %s XPI has been confirmed! ` +
       `Your balance is now %s XPI\r\n\r\n` +
       `[View tx on the Explorer](%s)`,
+    DEPOSIT_REVERT:
+      `Your deposit of %s XPI was dropped by the network and has been ` +
+      `removed from your balance. Your balance is now %s XPI\r\n\r\n` +
+      `[View tx on the Explorer](%s)`,
     WITHDRAW_OK:
       `Your withdrawal of %s XPI was successful!\r\n\r\n` +
       `[View tx on the Explorer](%s)`,
+    WITHDRAW_PREVIEW:
+      `You are about to withdraw to \`%s\`\r\n\r\n` +
+      `Deducted from your balance: %s XPI\r\n` +
+      `Network fee: %s XPI\r\n` +
+      `Service fee: %s XPI\r\n` +
+      `Amount received: %s XPI\r\n\r\n` +
+      `Please confirm or cancel this withdrawal within %s seconds.`,
+    WITHDRAW_CANCEL: `Your withdrawal has been cancelled.`,
+    WITHDRAW_PENDING:
+      `Your withdrawal of %s XPI to \`%s\` needs the approval of an ` +
+      `administrator. I will let you know once it has been reviewed.`,
+    WITHDRAW_APPROVED:
+      `Your withdrawal of %s XPI has been approved and sent!\r\n\r\n` +
+      `[View tx on the Explorer](%s)`,
+    WITHDRAW_REJECTED: `Your withdrawal of %s XPI has been rejected: %s`,
     WITHDRAW_FAIL: `There was an error processing your withdrawal: %s`,
     LINK:
       `I will link two of your accounts together so that your Lotus ` +
       `balances are combined into one.\r\n\r\n` +
       `Your secret code is: \`%s\`\r\n\r\n` +
       `Using your other account, send me this secret code with the "link" ` +
-      `command and I will link your accounts together.`,
+      `command and I will link your accounts together. The code can be ` +
+      `used once, within %s minutes.`,
     LINK_OK: `Your accounts have now been linked! `,
     LINK_FAIL: `There was an error linking your account: %s`,
+    LINK_PREVIEW:
+      `Linking will move %s platform account(s) into %s, with a combined ` +
+      `balance of %s XPI.\r\n\r\n` +
+      `Please confirm or cancel this link within %s seconds.`,
+    LINK_CANCEL: `Your link has been cancelled.`,
+    UNLINK_PREVIEW:
+      `Unlinking will move this platform account into a new account of its ` +
+      `own, with a balance of %s XPI. Your other platform accounts will ` +
+      `keep %s XPI.\r\n\r\n` +
+      `Please confirm or cancel this unlink within %s seconds.`,
+    UNLINK_OK: `This platform account has been unlinked! `,
+    UNLINK_CANCEL: `Your unlink has been cancelled.`,
+    UNLINK_FAIL: `There was an error unlinking your account: %s`,
     BACKUP:
       `Your seed phrase is: \`%s\`\r\n\r\n` +
       `WARNING: If you have linked platform accounts, then the balance in ` +
       `this wallet may not reflect your total account balance. If you send ` +
       `Lotus from this wallet, it WILL be reflected in your total account ` +
       `balance. If you send Lotus to this wallet, you will receive a deposit ` +
-      `notification.`
+      `notification.`,
+    BACKUP_FAIL: `There was an error backing up your wallet: %s`,
+    HISTORY: `Your transaction history (page %s of %s):\r\n\r\n%s`,
+    HISTORY_EMPTY: `You have no transactions yet.`,
+    HISTORY_DEPOSIT: `%s: deposited %s XPI`,
+    HISTORY_WITHDRAWAL: `%s: withdrew %s XPI`,
+    HISTORY_GIVE: `%s: gave %s XPI to %s`,
+    HISTORY_RECEIVE: `%s: received %s XPI from %s`,
+    ERR_NOT_ADMIN: 'You are not allowed to use admin commands.',
+    ADMIN_USAGE:
+      `Admin commands:\r\n\r\n` +
+      `totals - Compare wallet UTXOs with the off-chain ledger\r\n` +
+      `reserves - Compare wallet UTXOs with the balance of every account\r\n` +
+      `lookup <platform> <id> - Show the account of a user\r\n` +
+      `freeze <platform> <id> - Freeze the account of a user\r\n` +
+      `unfreeze <platform> <id> - Unfreeze the account of a user\r\n` +
+      `resync <platform> <id> - Reload the UTXOs of a user\r\n` +
+      `failures - List recent failed broadcasts\r\n` +
+      `pending - List withdrawals awaiting approval\r\n` +
+      `approve <request> - Approve and send a withdrawal\r\n` +
+      `reject <request> [reason] - Reject a withdrawal`,
+    ADMIN_TOTALS:
+      `Wallet UTXOs: %s XPI\r\n` +
+      `Ledger credit: %s XPI\r\n` +
+      `Ledger debt: %s XPI\r\n` +
+      `Ledger total: %s XPI`,
+    ADMIN_RESERVES:
+      `Solvent: %s\r\n` +
+      `Expected balances: %s XPI\r\n` +
+      `Wallet UTXOs: %s XPI\r\n` +
+      `Difference: %s XPI\r\n` +
+      `Stale UTXOs: %s XPI\r\n` +
+      `Flagged accounts: %s`,
+    ADMIN_RESERVES_ACCOUNT: `%s: %s of %s XPI`,
+    ADMIN_LOOKUP:
+      `Account: %s\r\n` +
+      `User: %s\r\n` +
+      `Frozen: %s\r\n` +
+      `Users: %s\r\n` +
+      `Addresses: %s\r\n` +
+      `Balance: %s XPI`,
+    ADMIN_FREEZE: `Account %s is now %s.`,
+    ADMIN_RESYNC: `Resynced UTXOs of user %s: %s added, %s removed.`,
+    ADMIN_FAILURES: `Recent failed broadcasts:\r\n\r\n%s`,
+    ADMIN_FAILURES_NONE: `There are no failed broadcasts.`,
+    ADMIN_FAILURE: `%s: %s %s by %s: %s`,
+    ADMIN_PENDING: `Withdrawals awaiting approval:\r\n\r\n%s`,
+    ADMIN_PENDING_NONE: `There are no withdrawals awaiting approval.`,
+    ADMIN_PENDING_ENTRY: `%s: %s XPI by %s to %s (%s)`,
+    ADMIN_APPROVE: `Withdrawal of %s XPI approved and sent: %s`,
+    ADMIN_REJECT: `Withdrawal %s rejected.`,
+    ADMIN_FAIL: `There was an error processing the admin command: %s`,
   },
+  /** Number of entries per page of the history command */
+  HISTORY_PAGE_SIZE: 10,
+  /** Time a user has to confirm a withdrawal, in milliseconds */
+  WITHDRAW_CONFIRM_TIMEOUT: 120000,
+  /** Time a user has to confirm a link or unlink, in milliseconds */
+  LINK_CONFIRM_TIMEOUT: 120000,
+  /** Time a link secret can be used, in milliseconds */
+  LINK_SECRET_TTL: 600000,
+  /** Period of the daily withdrawal limit, in milliseconds */
+  WITHDRAW_LIMIT_PERIOD: 86400000,
+  /** Number of failed broadcasts listed by the admin command */
+  ADMIN_FAILURES_LIMIT: 10,
+  /** Number of flagged accounts listed by the reserves admin command */
+  ADMIN_RESERVES_LIMIT: 10,
+  /** Time the result of a command is kept for repeats, in milliseconds */
+  IDEMPOTENCY_KEY_RETENTION: 86400000,
+  /** How often expired idempotency keys are deleted, in milliseconds */
+  IDEMPOTENCY_KEY_CLEANUP_INTERVAL: 3600000,
 };
 
 // BIP44 Wallet parameters
 export const WALLET = {
   PURPOSE: 44,
   COINTYPE: 10605,
+  /** BIP44 chain of deposit addresses */
+  RECEIVE_CHAIN: 0,
+  /** BIP44 chain of change addresses */
+  CHANGE_CHAIN: 1,
+  /**
+   * Unused addresses scanned past the last used one of each chain  
+   * Only one unused address of each chain is ever handed out, so this only
+   * covers indexes that were used but not saved
+   */
+  GAP_LIMIT: 5,
+};
+
+// Chronik WebSocket parameters
+export const CHRONIK = {
+  /** Initial reconnect delay, in milliseconds; doubles with each attempt */
+  WS_RECONNECT_DELAY: 1000,
+  /** Maximum reconnect delay, in milliseconds */
+  WS_RECONNECT_DELAY_MAX: 60000,
+};
+
+// Outgoing webhook parameters
+export const WEBHOOK = {
+  /** Handler events delivered to webhooks */
+  EVENTS: [
+    'DepositSaved',
+    'DepositConfirmed',
+    'DepositReverted',
+    'GiveSent',
+    'WithdrawalSent',
+    'WithdrawalApproved',
+    'WithdrawalRejected',
+  ],
+  /** Interval between delivery runs, in milliseconds */
+  POLL_INTERVAL: 5000,
+  /** Maximum number of deliveries attempted per run */
+  BATCH_SIZE: 20,
+  /** Request timeout, in milliseconds */
+  TIMEOUT: 10000,
+  /** Initial retry delay, in milliseconds; doubles with each attempt */
+  RETRY_DELAY: 30000,
+  /** Maximum retry delay, in milliseconds */
+  RETRY_DELAY_MAX: 3600000,
+  /** Number of attempts before a delivery is marked as failed */
+  MAX_ATTEMPTS: 10,
 };
 
 // Default transaction parameters
 export const TRANSACTION = {
-  /** Default withdrawal fee, in satoshis */
+  /**
+   * Default flat service fee on withdrawals, in satoshis  
+   * Only charged if a treasury address is configured
+   */
   FEE: 100000,
   /** Default output dust limit */
   DUST_LIMIT: 546,
   /** Minimum output amount for any Give/Withdraw */
   MIN_OUTPUT_AMOUNT: 1000,
+  /** Maximum number of users given to in a single rain */
+  MAX_RAIN_RECIPIENTS: 20,
 };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from 'node:crypto';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Generate a random 256-bit key, e.g. a data key or a new master key */
+export const newKey = () => randomBytes(KEY_LENGTH);
+
+/** Parse a hex-encoded 256-bit master key */
+export const parseKey = (
+  hex: string
+) => {
+  const key = Buffer.from(hex.trim(), 'hex');
+  if (key.length != KEY_LENGTH) {
+    throw new Error(`key must be ${KEY_LENGTH} bytes, hex-encoded`);
+  }
+  return key;
+};
+
+/** Encrypt `data` with `key`; returns `iv | tag | ciphertext` */
+export const encrypt = (
+  key: Buffer,
+  data: Buffer
+) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([ cipher.update(data), cipher.final() ]);
+  return Buffer.concat([ iv, cipher.getAuthTag(), ciphertext ]);
+};
+
+/** Decrypt the `iv | tag | ciphertext` output of `encrypt` with `key` */
+export const decrypt = (
+  key: Buffer,
+  data: Buffer
+) => {
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final()
+  ]);
+};
+
+/** Encrypt `dataKey` with `masterKey`, as base64 */
+export const wrapKey = (
+  masterKey: Buffer,
+  dataKey: Buffer
+) => encrypt(masterKey, dataKey).toString('base64');
+
+/** Decrypt the base64 `wrappedKey` with `masterKey` */
+export const unwrapKey = (
+  masterKey: Buffer,
+  wrappedKey: string
+) => decrypt(masterKey, Buffer.from(wrappedKey, 'base64'));
+
+/** SHA-256 hash of an API token or link secret, as stored in the database */
+export const hashToken = (
+  token: string
+) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * HMAC-SHA256 signature of a webhook payload `body`, as hex  
+ * `timestamp` is the time of the delivery attempt, in seconds
+ */
+export const signWebhook = (
+  secret: string,
+  timestamp: string,
+  body: string
+) => createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
\ No newline at end of file
@@ -0,0 +1,107 @@
+import config from '../config';
+
+export type LogLevel = typeof config.log.level;
+/** Contextual fields of a log entry; any other field is allowed */
+export type LogFields = {
+  module?: string,
+  platform?: string,
+  platformId?: string,
+  userId?: string,
+  txid?: string,
+  command?: string,
+  [field: string]: unknown
+};
+
+const LEVELS: { [level in LogLevel]: number } = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+const REDACTED = '[REDACTED]';
+/** Fields whose values are never logged */
+const SECRET_FIELD =
+  /secret|mnemonic|seed|passphrase|password|token|privkey|masterkey|datakey/i;
+/** 12 or more lowercase words in a row, e.g. a BIP39 mnemonic */
+const MNEMONIC = /\b(?:[a-z]{3,8} ){11,}[a-z]{3,8}\b/g;
+/** Extended private keys and WIF-encoded private keys */
+const PRIVATE_KEY =
+  /\b(?:xprv[1-9A-HJ-NP-Za-km-z]{100,}|[5KL][1-9A-HJ-NP-Za-km-z]{50,51})\b/g;
+
+/** Replace secrets in `value`; secret fields are replaced entirely */
+export const redact = (
+  value: unknown,
+  field?: string
+): unknown => {
+  if (field && SECRET_FIELD.test(field)) {
+    return REDACTED;
+  } else if (typeof value == 'string') {
+    return value
+      .replace(MNEMONIC, REDACTED)
+      .replace(PRIVATE_KEY, REDACTED);
+  } else if (Array.isArray(value)) {
+    return value.map(item => redact(item));
+  } else if (value && typeof value == 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([ key, item ]) => [ key, redact(item, key) ])
+    );
+  }
+  return value;
+};
+
+/**
+ * Leveled logger writing one JSON object per line  
+ * Entries below `LOG_LEVEL` are dropped, and secrets are redacted from all
+ * fields and messages
+ */
+export class Logger {
+  private fields: LogFields;
+
+  constructor(
+    fields: LogFields = {}
+  ) {
+    this.fields = fields;
+  };
+  /** Logger that adds `fields` to every entry */
+  child = (
+    fields: LogFields
+  ) => new Logger({ ...this.fields, ...fields });
+  debug = (
+    message: string,
+    fields?: LogFields
+  ) => this._write('debug', message, fields);
+  info = (
+    message: string,
+    fields?: LogFields
+  ) => this._write('info', message, fields);
+  warn = (
+    message: string,
+    fields?: LogFields
+  ) => this._write('warn', message, fields);
+  error = (
+    message: string,
+    fields?: LogFields
+  ) => this._write('error', message, fields);
+
+  private _write = (
+    level: LogLevel,
+    message: string,
+    fields: LogFields = {}
+  ) => {
+    if (LEVELS[level] < LEVELS[config.log.level]) {
+      return;
+    }
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      ...this.fields,
+      ...fields,
+      msg: message
+    });
+    const line = JSON.stringify(entry);
+    level == 'error' ? console.error(line) : console.log(line);
+  };
+};
+
+/** Root logger; use `child` to add the module and other context */
+export default new Logger();
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Sliding-window rate limiter: at most `limit` hits per key in any `window`
+ * A `limit` below 1 disables the limiter
+ * `now` returns the current time in milliseconds; replace it with a fake
+ * clock to control time, e.g. in tests
+ */
+export class RateLimiter {
+  private limit: number;
+  private window: number;
+  private now: () => number;
+  /** Times of the hits within the window, oldest first, by key */
+  private hits: Map<string, number[]> = new Map();
+  private lastSweep: number;
+
+  constructor(
+    limit: number,
+    window: number,
+    now: () => number = Date.now
+  ) {
+    this.limit = limit;
+    this.window = window;
+    this.now = now;
+    this.lastSweep = now();
+  };
+  /** Milliseconds until `key` may be hit again; 0 if it may be hit now */
+  retryAfter = (
+    key: string
+  ) => {
+    if (this.limit < 1) {
+      return 0;
+    }
+    const hits = this._prune(key);
+    return hits.length < this.limit
+      ? 0
+      : hits[hits.length - this.limit] + this.window - this.now();
+  };
+  /** Record a hit for `key` */
+  hit = (
+    key: string
+  ) => {
+    if (this.limit < 1) {
+      return;
+    }
+    this._sweep();
+    const hits = this._prune(key);
+    hits.push(this.now());
+    this.hits.set(key, hits);
+  };
+  /** Drop the hits of `key` that are outside of the window */
+  private _prune = (
+    key: string
+  ) => {
+    const since = this.now() - this.window;
+    const hits = (this.hits.get(key) ?? []).filter(time => time > since);
+    if (hits.length > 0) {
+      this.hits.set(key, hits);
+    } else {
+      this.hits.delete(key);
+    }
+    return hits;
+  };
+  /** Drop the keys of inactive users, at most once per window */
+  private _sweep = () => {
+    if (this.now() - this.lastSweep < this.window) {
+      return;
+    }
+    this.lastSweep = this.now();
+    for (const key of [ ...this.hits.keys() ]) {
+      this._prune(key);
+    }
+  };
+};
\ No newline at end of file
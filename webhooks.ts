@@ -0,0 +1,88 @@
+import { randomBytes } from 'node:crypto';
+import { Database } from './lib/database';
+import { WEBHOOK } from './util/constants';
+import * as Util from './util';
+
+/**
+ * Webhook maintenance
+ * - `add <url> [events]`: register `url` for the comma-separated `events`, or
+ *   all events; the signing secret is only printed once
+ * - `remove <url>`: remove the webhook `url` and its deliveries
+ * - `list`: list all webhooks with their delivery counts
+ */
+const [ command, url, events ] = process.argv.slice(2);
+
+const addWebhook = async (prisma: Database) => {
+  if (!url) {
+    throw new Error('usage: add <url> [events]');
+  }
+  const { protocol } = new URL(url);
+  if (protocol != 'http:' && protocol != 'https:') {
+    throw new Error(`unsupported protocol: ${protocol}`);
+  }
+  const eventList = events ? events.split(',') : [];
+  for (const event of eventList) {
+    if (!WEBHOOK.EVENTS.includes(event)) {
+      throw new Error(
+        `unknown event: ${event}; expected one of ${WEBHOOK.EVENTS.join(', ')}`
+      );
+    }
+  }
+  const secret = randomBytes(32).toString('hex');
+  await prisma.saveWebhook({
+    id: Util.newUUID(),
+    url,
+    secret,
+    events: eventList.join(','),
+    timestamp: new Date()
+  });
+  console.log(secret);
+};
+
+const removeWebhook = async (prisma: Database) => {
+  if (!url) {
+    throw new Error('usage: remove <url>');
+  }
+  if (!await prisma.deleteWebhook(url)) {
+    throw new Error(`no webhook: ${url}`);
+  }
+  console.log(`removed webhook: ${url}`);
+};
+
+const listWebhooks = async (prisma: Database) => {
+  const counts = await prisma.getWebhookDeliveryCounts();
+  for (const webhook of await prisma.getWebhooks()) {
+    const deliveries = counts
+      .filter(count => count.webhookId == webhook.id)
+      .map(count => `${count._count._all} ${count.status}`);
+    console.log(
+      `${webhook.url}: ${webhook.events || 'all events'}, ` +
+      `created ${webhook.timestamp.toISOString()}, ` +
+      `deliveries: ${deliveries.join(', ') || 'none'}`
+    );
+  }
+};
+
+const main = async () => {
+  const prisma = new Database();
+  await prisma.connect();
+  try {
+    switch (command) {
+      case 'add':
+        return await addWebhook(prisma);
+      case 'remove':
+        return await removeWebhook(prisma);
+      case 'list':
+        return await listWebhooks(prisma);
+      default:
+        throw new Error(`unknown command: ${command}`);
+    }
+  } finally {
+    await prisma.disconnect();
+  }
+};
+
+main().catch((e: Error) => {
+  console.log(`WEBHOOKS: ${e.message}`);
+  process.exitCode = 1;
+});
\ No newline at end of file